@@ -1,7 +1,10 @@
 import React, {
+  createContext,
+  useContext,
   useRef,
   useEffect,
   useImperativeHandle,
+  useLayoutEffect,
   forwardRef,
   useState,
   useCallback,
@@ -10,33 +13,122 @@ import {
   StyleSheet,
   View,
   Modal,
-  Animated,
   Pressable,
   ViewStyle,
   ModalProps,
   AccessibilityRole,
   Keyboard,
+  KeyboardEvent,
   Platform,
-  Dimensions,
-  GestureResponderEvent,
-  Easing,
+  BackHandler,
+  Animated,
   NativeScrollEvent,
   NativeSyntheticEvent,
+  LayoutChangeEvent,
+  useWindowDimensions,
 } from 'react-native';
-import { SharedValue } from 'react-native-reanimated';
+import type { SharedValue } from 'react-native-reanimated';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
-
+import { ModalSheetContext, ModalSheetContextValue } from './context';
+import { animatedEngineHooks } from './engines/animated';
+import {
+  ModalSheetFlatList,
+  ModalSheetScrollView,
+  ModalSheetSectionList,
+  scrollFocusedInputIntoView,
+} from './scrollables';
+import { createStackId, pushSheet, removeSheet, StackBehavior } from './stack';
+import { useWebSheetFocus } from './focus';
+import type {
+  AnimatedNumber,
+  AnimationEndCallback,
+  BackdropFadeRange,
+  ModalSheetAnimationConfig,
+  ResolvedAnimationConfig,
+  SheetDirection,
+  SnapIndexRange,
+} from './engines/types';
+
+export type {
+  AnimatedNumber,
+  ModalSheetSpringConfig,
+  ModalSheetTimingConfig,
+  ModalSheetAnimationConfig,
+  SheetDirection as ModalSheetDirection,
+} from './engines/types';
+export type { StackBehavior as ModalSheetStackBehavior } from './stack';
+
+type SnapPoint = string | number;
+
+/**
+ * What closed the sheet
+ * - 'backdrop': the backdrop was pressed
+ * - 'swipe': the sheet was dragged or flicked down, or its handle was pressed
+ * - 'hardwareBack': the Android back button
+ * - 'escape': the Escape key on the web
+ * - 'programmatic': close() or dismiss(), isVisible set to false, or a sheet opened on top
+ *   with stackBehavior="replace"
+ * - 'scroll': a scrollable inside the sheet pulled it down
+ */
+export type ModalSheetDismissReason =
+  | 'backdrop'
+  | 'swipe'
+  | 'hardwareBack'
+  | 'escape'
+  | 'programmatic'
+  | 'scroll';
+
+/**
+ * open, close, present, dismiss and snapToPoint resolve once their animation completes:
+ * true when the sheet reached its destination, false when another call interrupted the
+ * animation or the call was ignored (controlled mode, invalid snap index)
+ * Calling open while opening (or close while closing) resolves with the running animation
+ */
 export interface ModalSheetRef {
-  open: () => void;
-  close: () => void;
-  present: () => void;
-  dismiss: () => void;
-  snapToPoint: (index: number) => void; // Snap to a specific snap point
+  open: (config?: ModalSheetAnimationConfig) => Promise<boolean>;
+  close: (config?: ModalSheetAnimationConfig) => Promise<boolean>;
+  present: (config?: ModalSheetAnimationConfig) => Promise<boolean>;
+  dismiss: (config?: ModalSheetAnimationConfig) => Promise<boolean>;
+  snapToPoint: (index: number, config?: ModalSheetAnimationConfig) => Promise<boolean>; // Snap to a specific snap point
   handleScroll: (event: NativeSyntheticEvent<NativeScrollEvent>) => void; // Handle scroll events for expansion
   handleScrollBeginDrag: (event: NativeSyntheticEvent<NativeScrollEvent>) => void; // Handle scroll begin
   handleScrollEndDrag: (event: NativeSyntheticEvent<NativeScrollEvent>) => void; // Handle scroll end
 }
 
+export interface ModalSheetBackdropProps {
+  /**
+   * Sheet offset from its fully expanded position towards its edge (the translateY of a bottom
+   * sheet): an Animated.Value with the default engine, a Reanimated SharedValue with
+   * engine="reanimated"
+   */
+  animatedPosition: Animated.Value | SharedValue<number>;
+  /**
+   * Animated style of the default backdrop (absolute fill and opacity, including the fade
+   * between backdropDisappearsOnIndex and backdropAppearsOnIndex), for an Animated.View of
+   * the sheet's engine
+   */
+  style: object;
+}
+
+/**
+ * Layout of an adaptive sheet on windows at least as wide as its breakpoint
+ */
+export interface ModalSheetAdaptiveConfig {
+  /** Window width in px from which the wide layout is used (default: 768) */
+  breakpoint?: number;
+  /**
+   * Layout on wide windows (default: 'dialog')
+   * - 'dialog': a card centered in the window, sized by its content up to maxHeight, without
+   *   a handle or drag gestures
+   * - 'panel': a full-height side sheet on `side`
+   */
+  layout?: 'dialog' | 'panel';
+  /** Edge of the side panel (default: 'right') */
+  side?: 'left' | 'right';
+  /** Maximum width of the dialog (default: 560), or width of the side panel (default: 400) */
+  width?: number;
+}
+
 export interface ModalSheetAccessibilityProps {
   /**
    * Accessible label for the modal
@@ -76,13 +168,144 @@ export interface ModalSheetProps extends ModalSheetAccessibilityProps {
    */
   enableDragAndDrop?: boolean;
 
+  /**
+   * Animation engine driving drags, snapping and the backdrop (default: 'animated')
+   * - 'animated': React Native's Animated API, no extra dependencies
+   * - 'reanimated': Reanimated shared values and a Gesture Handler pan gesture, so drags
+   *   follow the finger on the UI thread even while the JS thread is busy.
+   *   Requires react-native-reanimated and react-native-gesture-handler
+   * The engine is picked on mount; changing it later has no effect
+   */
+  engine?: 'animated' | 'reanimated';
+
+  /**
+   * Keep the sheet on screen as a non-modal drawer, like the results panel of a maps app
+   * - The sheet opens on mount and its lowest snap point is a peek state: dragging, flicking or
+   *   pressing the backdrop, handle or back button collapses it there instead of closing it
+   * - Touches outside the sheet reach the screen underneath while the backdrop is hidden
+   * - The backdrop only fades in from backdropAppearsOnIndex (default: 1)
+   * close() still closes the sheet. Defaults presentation to 'inline', since a Modal would block
+   * the screen underneath
+   */
+  persistent?: boolean;
+
+  /**
+   * Snap index from which the backdrop is fully shown (default: 1 when persistent, otherwise 0)
+   * Between backdropDisappearsOnIndex and this index the backdrop opacity follows the sheet
+   * position. At or below backdropDisappearsOnIndex it is hidden and lets touches through
+   * A sheet without snap points rests on index 0
+   */
+  backdropAppearsOnIndex?: number;
+
+  /**
+   * Snap index at and below which the backdrop is hidden (default: backdropAppearsOnIndex - 1)
+   */
+  backdropDisappearsOnIndex?: number;
+
+  /**
+   * What pressing the backdrop does (default: 'close')
+   * - 'close': dismiss the sheet (persistent sheets collapse to their lowest snap point)
+   * - 'collapse': snap to the lowest snap point
+   * - a number: snap to that snap index
+   * - 'none': nothing, touches pass through the backdrop to the screen underneath
+   *   (with presentation="portal" or "inline")
+   */
+  backdropPressBehavior?: 'close' | 'collapse' | 'none' | number;
+
+  /**
+   * Render a custom backdrop, such as a blur or a gradient, instead of the black overlay
+   * Press handling stays with the sheet, see backdropPressBehavior
+   */
+  backdropComponent?: (props: ModalSheetBackdropProps) => React.ReactNode;
+
+  /**
+   * Where the sheet is rendered (default: 'modal', or 'inline' when persistent)
+   * - 'modal': inside a React Native Modal, above everything including navigation headers
+   * - 'portal': in a @gorhom/portal host (the PortalProvider's root host unless portalHostName
+   *   is set), so toasts and other portals can render above it. Requires @gorhom/portal
+   * - 'inline': in place, covering its parent view, for persistent drawer layouts
+   * Percentage snap points and the default maxHeight always refer to the window height below
+   * topInset
+   */
+  presentation?: 'modal' | 'portal' | 'inline';
+
+  /**
+   * Name of the PortalHost to render into with presentation="portal" (default: the root host)
+   */
+  portalHostName?: string;
+
+  /**
+   * Screen edge the sheet is anchored to and slides in from (default: 'bottom')
+   * Snap points, height, minHeight and maxHeight measure the sheet along its axis, which is the
+   * width of 'left' and 'right' sheets, and dragging towards the edge collapses or dismisses it
+   * Side sheets are not sized by their content: without height or snap points they take their
+   * maxHeight. Scroll-to-expand and keyboard avoidance only apply to bottom sheets
+   */
+  direction?: SheetDirection;
+
+  /**
+   * Present the sheet as a centered dialog or a side panel on wide windows, such as tablets and
+   * desktop browsers, and as the sheet configured by the other props below the breakpoint
+   * (default: false, true uses the default config)
+   * Both layouts share the children, callbacks, backdrop and ref methods. The wide layouts have
+   * no snap points (snapToPoint resolves false) and ignore direction and height; crossing the
+   * breakpoint while open moves the sheet into the new layout, back on its snap point
+   */
+  adaptive?: boolean | ModalSheetAdaptiveConfig;
+
+  /**
+   * Space at the top of the window the sheet never extends into, such as the status bar or
+   * notch (default: the top safe-area inset, or 0)
+   * Percentage snap points and the default maxHeight of a bottom sheet refer to the window
+   * height below it, and larger snap points are limited to it. Top and side sheets add it to
+   * their top padding
+   * Insets are detected with react-native-safe-area-context when it is installed, from the
+   * nearest SafeAreaProvider or the initial window metrics
+   */
+  topInset?: number;
+
+  /**
+   * Space at the bottom of the window kept clear of content, such as the home indicator
+   * (default: the bottom safe-area inset, or 0)
+   * It is added to the sheet's bottom padding, or to the gap below a detached sheet. The height
+   * of a top sheet is measured short of it
+   */
+  bottomInset?: number;
+
+  /**
+   * Float the sheet clear of its edge's inset with margins on the sides and all corners rounded,
+   * instead of attaching it to the edge (default: false)
+   */
+  detached?: boolean;
+
   /**
    * Enable keyboard avoidance to push sheet up when keyboard appears
    * Set to true when the sheet contains text inputs
    * Default is false for better performance when not needed
+   * Setting keyboardBehavior enables keyboard avoidance as well. Bottom sheets only
    */
   avoidKeyboard?: boolean;
 
+  /**
+   * How the sheet makes room for the keyboard (default: 'interactive')
+   * - 'interactive': the sheet rises above the keyboard and shrinks to fit the space left,
+   *   staying on its snap point
+   * - 'extend': like 'interactive', expanding to the largest snap point
+   * - 'fillParent': the sheet grows to fill the space above the keyboard
+   * - 'translate': the sheet moves up by the keyboard height without resizing, which can push
+   *   the top of tall sheets off screen
+   * The sheet follows the keyboard's animation, then scrolls a focused input inside a
+   * ModalSheet scrollable into view
+   */
+  keyboardBehavior?: 'interactive' | 'extend' | 'fillParent' | 'translate';
+
+  /**
+   * What happens when the keyboard hides (default: 'none')
+   * - 'none': the sheet stays on its current snap point
+   * - 'restore': the sheet returns to the snap point it was on when the keyboard appeared
+   */
+  keyboardBlurBehavior?: 'none' | 'restore';
+
   /**
    * Additional offset to add when keyboard is shown (in pixels)
    * Useful for fine-tuning keyboard avoidance behavior
@@ -92,7 +315,8 @@ export interface ModalSheetProps extends ModalSheetAccessibilityProps {
 
   /**
    * Height of the bottom sheet
-   * If not provided, the sheet will auto-size based on content
+   * If not provided, the sheet is measured and sized to its content (clamped between
+   * minHeight and maxHeight), animating when the content grows or shrinks while open
    */
   height?: number;
 
@@ -102,6 +326,12 @@ export interface ModalSheetProps extends ModalSheetAccessibilityProps {
    */
   maxHeight?: number;
 
+  /**
+   * Maximum width of a top or bottom sheet, which is centered when the window is wider, e.g. in
+   * landscape or on tablets (default: the full width)
+   */
+  maxWidth?: number;
+
   /**
    * Minimum height of the bottom sheet (default: 150)
    * Ensures the sheet has a minimum size even with little content
@@ -111,9 +341,12 @@ export interface ModalSheetProps extends ModalSheetAccessibilityProps {
   /**
    * Snap points for the sheet as percentages of screen height or absolute pixel values
    * Example: [0.3, 0.7, 0.95] or [300, 600, 900]
+   * Use 'content' for a snap point sized to the measured content, e.g. ['content', 0.9]
    * If provided, enables snap point behavior
+   * Updating the array (or the SharedValue) while open keeps the sheet on the same snap point,
+   * or the nearest one if it was removed, and animates it to the new position
    */
-  snapPoints?: (string | number)[] | SharedValue<(string | number)[]>;
+  snapPoints?: SnapPoint[] | SharedValue<SnapPoint[]>;
 
   /**
    * Initial snap point index (default: 0)
@@ -123,48 +356,105 @@ export interface ModalSheetProps extends ModalSheetAccessibilityProps {
 
   /**
    * Enable scroll-to-expand behavior (default: true)
-   * When true:
-   * - Slow scroll down: expand to next snap point
-   * - Fast swipe down: jump multiple snap points or to max
-   * - Slow scroll up at top: collapse to previous snap point
-   * - Fast swipe up at top: jump back multiple snap points or close
+   * When true, scrolling moves the sheet 1:1 with the finger:
+   * - Pushing up while the sheet is below its largest snap point expands it
+   * - Pulling down at the top of the content collapses or dismisses it
+   * Releasing settles the sheet with the same velocity projection as the handle
+   * ModalSheet.ScrollView, ModalSheet.FlatList and ModalSheet.SectionList lock their content
+   * until the sheet is fully expanded and share a single touch with the sheet; when false
+   * they behave like the plain React Native components
    */
   enableScrollToExpand?: boolean;
 
   /**
-   * Scroll threshold in pixels to trigger snap point expansion/collapse (default: 50)
-   * How far the user needs to scroll to trigger the transition
+   * @deprecated Has no effect: scrolling now moves the sheet continuously instead of
+   * triggering snaps after a threshold
    */
   scrollExpandThreshold?: number;
 
   /**
    * Callback when snap point changes
+   * Fires as the snap animation starts; use onChange to react once the sheet has settled
    */
   onSnapPointChange?: (index: number) => void;
 
+  /**
+   * Callback when the sheet starts animating towards another snap index
+   * The index is -1 while closed, so opening reports (-1, initialSnapIndex) and closing
+   * (currentIndex, -1). Sheets without snap points rest at index 0
+   */
+  onAnimate?: (fromIndex: number, toIndex: number) => void;
+
+  /**
+   * Callback when the sheet has settled on another snap index, with its resting translateY
+   * Reports -1 once the sheet has closed
+   */
+  onChange?: (index: number, position: number) => void;
+
   /**
    * Controlled visibility state (optional)
-   * If provided, the component becomes controlled and ignores imperative ref methods
+   * If provided, the component becomes controlled: toggling it runs the open/close animations,
+   * user dismissal (backdrop, handle, swipe, back button) only calls `onClose`, and the
+   * imperative open/close ref methods are ignored
    */
   isVisible?: boolean;
 
   /**
-   * Callback when the sheet is closed
+   * Callback when the sheet is closed, with what closed it
+   * In controlled mode this is a dismissal request: set `isVisible` to false to close the sheet
+   */
+  onClose?: (reason: ModalSheetDismissReason) => void;
+
+  /**
+   * Called before a user dismissal (backdrop, handle, swipe, back button, scroll) closes the
+   * sheet. Return false, or a promise resolving to false or rejecting, to keep the sheet open:
+   * it springs back to its current snap point, e.g. while a "discard changes?" prompt is shown
+   * close(), dismiss() and isVisible are not guarded
+   */
+  onBeforeClose?: (reason: ModalSheetDismissReason) => boolean | Promise<boolean>;
+
+  /**
+   * Ignore every user dismissal: the sheet springs back from swipes and ignores the backdrop,
+   * handle and back button. It only closes through close(), dismiss() or isVisible
+   * (default: false)
    */
-  onClose?: () => void;
+  preventDismiss?: boolean;
 
   /**
    * Callback when the sheet is opened
    */
   onOpen?: () => void;
 
+  /**
+   * Callback when the sheet starts opening
+   */
+  onWillPresent?: () => void;
+
+  /**
+   * Callback when the open animation has completed, right before onOpen
+   * Not called when the sheet is closed again before it finished opening
+   */
+  onDidPresent?: () => void;
+
+  /**
+   * Callback when the sheet starts closing, with what closed it
+   */
+  onWillDismiss?: (reason: ModalSheetDismissReason) => void;
+
+  /**
+   * Callback when the close animation has completed, with what closed the sheet
+   * Not called when the sheet is reopened before it finished closing
+   */
+  onDidDismiss?: (reason: ModalSheetDismissReason) => void;
+
   /**
    * Background color of the sheet (default: 'white')
    */
   backgroundColor?: string;
 
   /**
-   * Border radius of the top corners (default: 20)
+   * Border radius of the corners away from the sheet's edge, or of all corners when detached
+   * (default: 20)
    */
   borderRadius?: number;
 
@@ -188,6 +478,51 @@ export interface ModalSheetProps extends ModalSheetAccessibilityProps {
    */
   dragThreshold?: number;
 
+  /**
+   * Make the whole sheet surface draggable, not just the handle
+   * Default is true unless the content contains a ModalSheet.ScrollView, FlatList or SectionList,
+   * which drag the sheet themselves. Set to false when the content has a plain vertical
+   * ScrollView or FlatList
+   */
+  enableContentPanning?: boolean;
+
+  /**
+   * Vertical distance in pixels a touch must travel before content panning drags the sheet
+   * (default: 10). Shorter movements stay taps for Pressables inside the sheet
+   * Side sheets measure it horizontally, along their axis
+   */
+  activeOffsetY?: number;
+
+  /**
+   * Horizontal distance in pixels after which content panning leaves the touch to the content
+   * (default: 15). Keeps nested horizontal scrollers and swipeable rows working
+   * Side sheets measure it vertically, leaving vertical scrolling to the content
+   */
+  failOffsetX?: number;
+
+  /**
+   * Release velocity in px/ms above which a handle drag counts as a flick (default: 0.5)
+   * Flicks are projected forward so they can advance past snap points or dismiss the sheet
+   */
+  velocityThreshold?: number;
+
+  /**
+   * Per-millisecond deceleration used to project a flick's resting position (default: 0.998)
+   * Matches UIScrollView's normal deceleration rate; lower values shorten the projection
+   */
+  projectionDecay?: number;
+
+  /**
+   * What happens to a sheet that is already open when this sheet opens on top of it
+   * (default: 'push')
+   * - 'push': the sheet below stays in place, scaled back and dimmed behind this sheet
+   * - 'switch': the sheet below slides away and returns when this sheet closes
+   * - 'replace': the sheet below is closed (in controlled mode its onClose is called)
+   * Only the top sheet responds to gestures, the backdrop and the back button. Closing it
+   * brings the sheet below back to the snap point it was on
+   */
+  stackBehavior?: StackBehavior;
+
   /**
    * Animation duration in ms (default: 300)
    */
@@ -195,44 +530,233 @@ export interface ModalSheetProps extends ModalSheetAccessibilityProps {
 
   /**
    * Spring damping value (default: 20)
+   * Used by spring animations that don't set their own damping, including the default snap
+   * and drag release animation
    */
   springDamping?: number;
 
+  /**
+   * Animations used to open, close and snap the sheet
+   * A config passed to the matching ref method takes precedence
+   * Defaults: open and close use timing based on animationDuration, snapping and drag
+   * release use a spring that starts with the release velocity of the drag
+   */
+  animationConfigs?: {
+    open?: ModalSheetAnimationConfig;
+    close?: ModalSheetAnimationConfig;
+    snap?: ModalSheetAnimationConfig;
+  };
+
+  /**
+   * Value kept in sync with the sheet's translateY from its fully expanded position, for
+   * driving other animations (a parallax header, a floating button following the sheet)
+   * Pass an Animated.Value or a Reanimated SharedValue; either works with both engines, but a
+   * value of the engine's own library updates without crossing threads. Content inside the
+   * sheet can use useModalSheetAnimation() instead
+   */
+  animatedPosition?: AnimatedNumber;
+
+  /**
+   * Value kept in sync with the sheet's fractional snap index: 0 at the first snap point, 1 at
+   * the second and so on, in between while moving, and -1 once the sheet is closed
+   * Without snap points the index goes from 0 (open) to -1 (closed)
+   */
+  animatedIndex?: AnimatedNumber;
+
   /**
    * Custom styles for the sheet container
    */
   containerStyle?: ViewStyle;
 
   /**
-   * Additional Modal props
+   * Additional Modal props (presentation="modal" only)
    */
   modalProps?: Partial<ModalProps>;
 }
 
+const DEFAULT_SPRING_STIFFNESS = 200;
+const DEFAULT_SNAP_ANIMATION: ModalSheetAnimationConfig = { type: 'spring' };
+const KEYBOARD_ANIMATION_DURATION = 250;
+// Backdrop fade that stays hidden at every position a sheet can rest at (0 and beyond)
+const HIDDEN_BACKDROP_RANGE: BackdropFadeRange = { shownAt: -1, hiddenAt: 0 };
+// Gap around a detached sheet
+const DETACHED_MARGIN = 16;
+// Wide layouts of adaptive sheets
+const DEFAULT_ADAPTIVE_BREAKPOINT = 768;
+const DEFAULT_DIALOG_WIDTH = 560;
+const DEFAULT_PANEL_WIDTH = 400;
+// Padding around the handle and its thickness, which make up the handle row
+const HANDLE_ROW_PADDING = 12;
+const HANDLE_THICKNESS = 4;
+
+const OPPOSITE_EDGES: Record<SheetDirection, SheetDirection> = {
+  bottom: 'top',
+  top: 'bottom',
+  left: 'right',
+  right: 'left',
+};
+
+// How the sheet sits against each edge: its alignment in the container, the margin holding its
+// distance from the edge, the corners rounded away from the edge, and where the view extending
+// the sheet past the edge goes
+const EDGE_LAYOUTS: Record<
+  SheetDirection,
+  {
+    container: ViewStyle;
+    edgeMargin: 'marginBottom' | 'marginTop' | 'marginLeft' | 'marginRight';
+    roundedCorners: (
+      | 'borderTopLeftRadius'
+      | 'borderTopRightRadius'
+      | 'borderBottomLeftRadius'
+      | 'borderBottomRightRadius'
+    )[];
+    extension: ViewStyle;
+  }
+> = {
+  bottom: {
+    container: { justifyContent: 'flex-end' },
+    edgeMargin: 'marginBottom',
+    roundedCorners: ['borderTopLeftRadius', 'borderTopRightRadius'],
+    extension: { top: '100%', left: 0, right: 0, height: 200 },
+  },
+  top: {
+    container: { justifyContent: 'flex-start' },
+    edgeMargin: 'marginTop',
+    roundedCorners: ['borderBottomLeftRadius', 'borderBottomRightRadius'],
+    extension: { bottom: '100%', left: 0, right: 0, height: 200 },
+  },
+  left: {
+    container: { flexDirection: 'row', justifyContent: 'flex-start' },
+    edgeMargin: 'marginLeft',
+    roundedCorners: ['borderTopRightRadius', 'borderBottomRightRadius'],
+    extension: { right: '100%', top: 0, bottom: 0, width: 200 },
+  },
+  right: {
+    container: { flexDirection: 'row', justifyContent: 'flex-end' },
+    edgeMargin: 'marginRight',
+    roundedCorners: ['borderTopLeftRadius', 'borderBottomLeftRadius'],
+    extension: { left: '100%', top: 0, bottom: 0, width: 200 },
+  },
+};
+
+// Reanimated is an optional dependency, so its engine is only loaded when requested
+// The engine module requires Reanimated itself and throws when it is missing
+const loadReanimated = (): typeof import('./engines/reanimated') => require('./engines/reanimated');
+
+// @gorhom/portal is an optional dependency, so it is only loaded for portal presentation
+const loadPortal = (): typeof import('@gorhom/portal') => {
+  try {
+    return require('@gorhom/portal');
+  } catch {
+    throw new Error(
+      'ModalSheet: presentation="portal" requires @gorhom/portal to be installed and a PortalProvider at the root of the app.'
+    );
+  }
+};
+
+// react-native-safe-area-context is an optional dependency, insets default to 0 without it
+let safeAreaContext: typeof import('react-native-safe-area-context') | null | undefined;
+const loadSafeAreaContext = (): typeof import('react-native-safe-area-context') | null => {
+  if (safeAreaContext === undefined) {
+    try {
+      safeAreaContext = require('react-native-safe-area-context');
+    } catch {
+      safeAreaContext = null;
+    }
+  }
+  return safeAreaContext ?? null;
+};
+
+const NO_INSETS = { top: 0, right: 0, bottom: 0, left: 0 };
+const NoSafeAreaContext = createContext<typeof NO_INSETS | null>(null);
+
+// Insets of the nearest SafeAreaProvider, or of the initial window without one
+const useSafeAreaInsets = () => {
+  const safeArea = loadSafeAreaContext();
+  const insets = useContext(safeArea?.SafeAreaInsetsContext ?? NoSafeAreaContext);
+  return insets ?? safeArea?.initialWindowMetrics?.insets ?? NO_INSETS;
+};
+
+const isSharedValue = <T,>(value: T[] | SharedValue<T[]> | undefined): value is SharedValue<T[]> =>
+  value !== undefined && !Array.isArray(value) && 'value' in value;
+
+// Padding of a flattened style on one side, resolving the shorthand properties
+const getPadding = (style: ViewStyle, side: 'Top' | 'Bottom' | 'Left' | 'Right'): number => {
+  const value =
+    style[`padding${side}`] ??
+    (side === 'Top' || side === 'Bottom' ? style.paddingVertical : style.paddingHorizontal) ??
+    style.padding;
+  return typeof value === 'number' ? value : 0;
+};
+
+type SnapPointsInput = SnapPoint[] | SharedValue<SnapPoint[]> | undefined;
+
+// Plain snap point arrays are read as they are on every render
+const usePlainSnapPoints = (snapPoints: SnapPointsInput) =>
+  isSharedValue(snapPoints) ? snapPoints.value : snapPoints;
+
+// Distance a flick travels while decelerating by `decay` every millisecond
+const projectDistance = (velocity: number, decay: number): number =>
+  (velocity * decay) / (1 - decay);
+
 const ModalSheet = forwardRef<ModalSheetRef, ModalSheetProps>(
   (
     {
       children,
       enableDragAndDrop = false,
+      engine = 'animated',
+      persistent = false,
+      presentation = persistent ? 'inline' : 'modal',
+      portalHostName,
+      direction: directionProp = 'bottom',
+      adaptive = false,
       avoidKeyboard = false,
+      keyboardBehavior,
+      keyboardBlurBehavior = 'none',
+      topInset,
+      bottomInset,
+      detached: detachedProp = false,
       keyboardOffset = 0,
-      height,
-      maxHeight,
-      minHeight: _minHeight = 150,
+      height: heightProp,
+      maxHeight: maxHeightProp,
+      maxWidth: maxWidthProp,
+      minHeight = 150,
       snapPoints,
       initialSnapIndex = 0,
       enableScrollToExpand = true,
-      scrollExpandThreshold = 50,
       onSnapPointChange,
+      onAnimate,
+      onChange,
+      isVisible,
       onClose,
+      onBeforeClose,
+      preventDismiss = false,
       onOpen,
+      onWillPresent,
+      onDidPresent,
+      onWillDismiss,
+      onDidDismiss,
       backgroundColor = 'white',
       borderRadius = 20,
-      showHandle = true,
+      showHandle: showHandleProp = true,
       handleColor = '#DDD',
       backdropOpacity = 0.5,
+      backdropAppearsOnIndex = persistent ? 1 : 0,
+      backdropDisappearsOnIndex = backdropAppearsOnIndex - 1,
+      backdropPressBehavior = 'close',
+      backdropComponent,
       dragThreshold = 125,
+      enableContentPanning,
+      activeOffsetY = 10,
+      failOffsetX = 15,
+      velocityThreshold = 0.5,
+      projectionDecay = 0.998,
+      stackBehavior = 'push',
       animationDuration = 300,
+      springDamping = 20,
+      animationConfigs,
+      animatedPosition,
+      animatedIndex,
       containerStyle,
       modalProps,
       // Accessibility props
@@ -246,96 +770,296 @@ const ModalSheet = forwardRef<ModalSheetRef, ModalSheetProps>(
     const [visible, setVisible] = useState(false);
     const visibleRef = useRef(visible);
     const [keyboardHeight, setKeyboardHeight] = useState(0);
-    const [_measuredContentHeight, setMeasuredContentHeight] = useState(0);
+    // Natural sheet height needed to fit the content (handle, content and padding)
+    const [measuredContentHeight, setMeasuredContentHeight] = useState(0);
     const hasMeasured = useRef(false);
+    // Starts the open transition's slide-in, which waits for the first content measurement
+    const pendingSlideIn = useRef<(() => void) | null>(null);
     const [currentSnapIndex, setCurrentSnapIndex] = useState(initialSnapIndex);
     const [isAnimating, setIsAnimating] = useState(false);
-    const isImperativelyAnimating = useRef(false);
-    const currentAnimation = useRef<Animated.CompositeAnimation | null>(null);
-    const translateY = useRef(new Animated.Value(0)).current;
-    const backdropOpacityAnim = useRef(new Animated.Value(0)).current;
+    const isClosing = useRef(false);
+    // Open/close transition in progress, a new transition supersedes the previous one
+    const transitionToken = useRef(0);
+    const isTransitioning = useRef(false);
+    // Drags can't start during a transition, they would stop it halfway
+    const [isInTransition, setIsInTransition] = useState(false);
+    // Finishes a close that a drag already under way interrupted, once the finger is released
+    const resumeClose = useRef<((velocity: number) => void) | null>(null);
+    // Resolves when the latest open/close transition completes or is interrupted
+    const transitionResult = useRef<Promise<boolean>>(Promise.resolve(true));
+    // Snap index last reported through onChange, -1 while closed
+    const settledIndex = useRef(-1);
+    // Controlled mode: the user dismissal that asked the parent to close the sheet
+    const dismissReason = useRef<ModalSheetDismissReason | null>(null);
+
+    // Window dimensions update on rotation, split screen and window resizes, re-resolving the
+    // snap points while the sheet stays on its snap index
+    const { width: screenWidth, height: screenHeight } = useWindowDimensions();
+
+    // Adaptive sheets switch to their wide layout from the breakpoint on, which takes over the
+    // direction, size, snap points and handle of the sheet
+    const adaptiveConfig: ModalSheetAdaptiveConfig | null =
+      adaptive === true ? {} : adaptive || null;
+    const wideLayout =
+      adaptiveConfig && screenWidth >= (adaptiveConfig.breakpoint ?? DEFAULT_ADAPTIVE_BREAKPOINT)
+        ? (adaptiveConfig.layout ?? 'dialog')
+        : null;
+    const isDialog = wideLayout === 'dialog';
+    const isPanel = wideLayout === 'panel';
+    const direction: SheetDirection = isPanel
+      ? (adaptiveConfig?.side ?? 'right')
+      : isDialog
+        ? 'bottom'
+        : directionProp;
+    // A dialog is sized by its content, up to maxHeight
+    const height = isPanel
+      ? (adaptiveConfig?.width ?? DEFAULT_PANEL_WIDTH)
+      : isDialog
+        ? undefined
+        : heightProp;
+    const maxHeight = isPanel ? undefined : maxHeightProp;
+    const maxWidth = isDialog ? (adaptiveConfig?.width ?? DEFAULT_DIALOG_WIDTH) : maxWidthProp;
+    const detached = detachedProp || isDialog;
+    const showHandle = showHandleProp && !isDialog;
+
+    // The engine's hooks must not change between renders, so it is fixed on mount
+    const [{ useEngine: useSheetEngine, useBackdropStyle, useAnimatedIndex, useAnimationTargets }] =
+      useState(() =>
+        engine === 'reanimated' ? loadReanimated().reanimatedEngineHooks : animatedEngineHooks
+      );
+    const [usesGestureHandler] = useState(engine === 'reanimated');
+    const sheetEngine = useSheetEngine(direction);
+    const { AnimatedView, DragArea, ContentDragArea } = sheetEngine;
+
+    // SharedValue snap points are mirrored into state so updates from either thread re-render
+    // Like the engine, whether snapPoints is a SharedValue is decided on mount
+    const [useSnapPointsValue] = useState<(snapPoints: SnapPointsInput) => SnapPoint[] | undefined>(
+      () => (isSharedValue(snapPoints) ? loadReanimated().useSharedValueState : usePlainSnapPoints)
+    );
+    const snapPointsValue = useSnapPointsValue(snapPoints);
+    const snapPointsArray = wideLayout ? undefined : snapPointsValue;
+
+    // Inline arrays are new on every render, so snap points are only replaced when their values
+    // change
+    const snapPointsKey = JSON.stringify(Array.isArray(snapPointsArray) ? snapPointsArray : null);
+    const stableSnapPoints = React.useMemo<SnapPoint[] | null>(
+      () => JSON.parse(snapPointsKey),
+      [snapPointsKey]
+    );
 
     // Swipe gesture tracking
-    const touchStartY = useRef(0);
-    const touchStartTranslateY = useRef(0);
     const isDragging = useRef(false);
-    const isMouseDragging = useRef(false);
 
-    // Scroll tracking for expansion
-    const lastScrollY = useRef(0);
-    const scrollVelocity = useRef(0);
-    const canExpandFromScroll = useRef(true);
-    const scrollStartY = useRef(0);
-    const isDraggingSheet = useRef(false);
+    // Scroll gesture forwarded through the ref, null once the finger is lifted
+    const scrollDrag = useRef<{ lastOffsetY: number; isMovingSheet: boolean } | null>(null);
+
+    // Position in the sheet stack, and how the sheet stacked on top covers this one
+    const [stackId] = useState(createStackId);
+    const [coveredBy, setCoveredBy] = useState<StackBehavior | null>(null);
+    const isCovered = coveredBy !== null;
+
+    // Controlled mode: visibility is driven by the isVisible prop
+    const isControlled = isVisible !== undefined;
 
     // Keep visibleRef in sync with visible state
     useEffect(() => {
       visibleRef.current = visible;
     }, [visible]);
 
-    // Get screen dimensions
-    const screenHeight = Dimensions.get('window').height;
+    // Side sheets are sized and moved along the window width
+    const isHorizontal = direction === 'left' || direction === 'right';
+    const screenSize = isHorizontal ? screenWidth : screenHeight;
+    // Width of the area the sheet is laid out in, which a detached sheet is sized against
+    const [containerWidth, setContainerWidth] = useState<number | null>(null);
+
+    // Safe-area insets, unless set through topInset / bottomInset
+    const deviceInsets = useSafeAreaInsets();
+    const safeTopInset = topInset ?? deviceInsets.top;
+    const safeBottomInset = bottomInset ?? deviceInsets.bottom;
+    const safeInsets: Record<SheetDirection, number> = {
+      top: safeTopInset,
+      bottom: safeBottomInset,
+      left: deviceInsets.left,
+      right: deviceInsets.right,
+    };
+    const edgeInset = safeInsets[direction];
+
+    // Keyboard handling - only when avoidKeyboard is true or a keyboardBehavior is set
+    const isKeyboardAvoiding =
+      (avoidKeyboard || keyboardBehavior !== undefined) && direction === 'bottom' && !isDialog;
+    const activeKeyboardBehavior = keyboardBehavior ?? 'interactive';
+    const keyboardInset = isKeyboardAvoiding ? keyboardHeight : 0;
+
+    // Distance between the sheet and its edge: a detached sheet floats clear of the edge's
+    // inset, and the keyboard lifts a bottom sheet (an attached sheet's bottom padding, which
+    // holds the inset, may go behind the keyboard). A dialog is centered instead
+    const restingEdgeOffset = detached && !isDialog ? edgeInset + DETACHED_MARGIN : 0;
+    const sheetEdgeOffset = isDialog
+      ? 0
+      : detached
+        ? Math.max(keyboardInset, edgeInset) + DETACHED_MARGIN
+        : Math.max(keyboardInset - edgeInset, 0);
+
+    // Size the sheet can use along its axis short of the opposite edge's inset, which
+    // percentages refer to. A dialog keeps clear of both insets
+    const containerSize =
+      screenSize -
+      safeInsets[OPPOSITE_EDGES[direction]] -
+      restingEdgeOffset -
+      (isDialog ? edgeInset : 0);
+
+    // Calculate default max height (90% of the usable height)
+    const defaultMaxHeight = containerSize * 0.9;
+
+    // Height left above the keyboard, keeping the gap maxHeight leaves at the top of the screen
+    // 'translate' keeps the sheet's size, so it has no limit
+    const keyboardSpace =
+      keyboardInset > 0 && activeKeyboardBehavior !== 'translate'
+        ? Math.max(
+            (maxHeight ?? defaultMaxHeight) - (sheetEdgeOffset - restingEdgeOffset),
+            minHeight
+          )
+        : null;
+    const effectiveMaxHeight = Math.min(maxHeight ?? defaultMaxHeight, keyboardSpace ?? Infinity);
+
+    // An attached sheet extends its padding by the inset of its edge, and a side sheet by the
+    // top and bottom insets it spans, including a padding from containerStyle
+    const sheetPadding = React.useMemo(() => {
+      const style = StyleSheet.flatten([styles.sheet, containerStyle]);
+      const insets: Partial<Record<SheetDirection, number>> = {};
+      if (!detached) {
+        insets[direction] = edgeInset;
+        if (isHorizontal) {
+          insets.top = safeTopInset;
+          insets.bottom = safeBottomInset;
+        }
+      }
+      return {
+        paddingTop: getPadding(style, 'Top') + (insets.top ?? 0),
+        paddingBottom: getPadding(style, 'Bottom') + (insets.bottom ?? 0),
+        paddingLeft: getPadding(style, 'Left') + (insets.left ?? 0),
+        paddingRight: getPadding(style, 'Right') + (insets.right ?? 0),
+      };
+    }, [
+      containerStyle,
+      detached,
+      direction,
+      isHorizontal,
+      edgeInset,
+      safeTopInset,
+      safeBottomInset,
+    ]);
 
-    // Calculate default max height (90% of screen height)
-    const defaultMaxHeight = screenHeight * 0.9;
-    const effectiveMaxHeight = maxHeight ?? defaultMaxHeight;
+    // Space below the content is part of the measured sheet height but not of the content
+    // layout: the bottom padding, and the handle row that follows the content in a top sheet
+    const sheetTrailingSpace =
+      sheetPadding.paddingBottom +
+      (direction === 'top' ? HANDLE_ROW_PADDING * 2 + (showHandle ? HANDLE_THICKNESS : 0) : 0);
+
+    // Sheet height that fits the measured content, clamped between minHeight and maxHeight
+    const contentSheetHeight =
+      measuredContentHeight > 0
+        ? Math.min(Math.max(measuredContentHeight, minHeight), effectiveMaxHeight)
+        : minHeight;
 
     // Convert snap points to pixel values
     const snapPointsInPixels = React.useMemo(() => {
-      if (!snapPoints) return null;
-
-      // Extract the actual array from SharedValue if needed
-      const pointsArray = (snapPoints as any).value || snapPoints;
+      if (!stableSnapPoints || stableSnapPoints.length === 0) return null;
 
-      if (!Array.isArray(pointsArray) || pointsArray.length === 0) return null;
-
-      return pointsArray.map((point: string | number) => {
+      const points = stableSnapPoints.map((point: SnapPoint) => {
+        // 'content' resolves to the measured content height
+        if (point === 'content') {
+          return contentSheetHeight;
+        }
         // Handle string values (e.g., "50%")
         if (typeof point === 'string') {
           if (point.endsWith('%')) {
             const percentage = parseFloat(point) / 100;
-            return screenHeight * percentage;
+            return containerSize * percentage;
           }
-          return parseFloat(point);
+          return Math.min(parseFloat(point), containerSize);
         }
         // If numeric value is between 0 and 1, treat as percentage
         if (point > 0 && point <= 1) {
-          return screenHeight * point;
+          return containerSize * point;
         }
         // Otherwise treat as absolute pixel value
-        return point;
+        return Math.min(point, containerSize);
       });
-    }, [snapPoints, screenHeight]);
 
-    // Keyboard handling - only when avoidKeyboard is true
+      // Above the keyboard the snap points shrink to the space left, or all fill it
+      if (keyboardSpace === null) return points;
+      return points.map((point: number) =>
+        activeKeyboardBehavior === 'fillParent' ? keyboardSpace : Math.min(point, keyboardSpace)
+      );
+    }, [
+      stableSnapPoints,
+      containerSize,
+      contentSheetHeight,
+      keyboardSpace,
+      activeKeyboardBehavior,
+    ]);
+
+    // Whether one of the snap points is sized by the content
+    const hasContentSnapPoint =
+      Array.isArray(snapPointsArray) && snapPointsArray.includes('content');
+
+    // Auto-height sheets are sized by their measured content
+    const isAutoHeight = !snapPointsInPixels && height === undefined && !isHorizontal;
+
+    // Animation of the latest keyboard event, which the sheet follows
+    const keyboardAnimation = useRef<ModalSheetAnimationConfig>({
+      type: 'timing',
+      duration: KEYBOARD_ANIMATION_DURATION,
+    });
+
     useEffect(() => {
-      if (!avoidKeyboard) return;
+      if (!isKeyboardAvoiding) return;
+
+      // Android reports no duration, so the sheet falls back to its own curve there
+      const followKeyboard = (e: KeyboardEvent, nextKeyboardHeight: number) => {
+        keyboardAnimation.current =
+          e.duration > 0
+            ? { type: 'timing', duration: e.duration, easing: sheetEngine.keyboardEasing(e.easing) }
+            : {
+                type: 'timing',
+                duration: KEYBOARD_ANIMATION_DURATION,
+                easing: sheetEngine.easeOut,
+              };
+        setKeyboardHeight(nextKeyboardHeight);
+      };
 
       const keyboardWillShowListener = Keyboard.addListener(
         Platform.OS === 'ios' ? 'keyboardWillShow' : 'keyboardDidShow',
-        (e: any) => {
-          setKeyboardHeight(e.endCoordinates.height + keyboardOffset);
-        }
+        e => followKeyboard(e, e.endCoordinates.height + keyboardOffset)
       );
 
       const keyboardWillHideListener = Keyboard.addListener(
         Platform.OS === 'ios' ? 'keyboardWillHide' : 'keyboardDidHide',
-        () => {
-          setKeyboardHeight(0);
-        }
+        e => followKeyboard(e, 0)
       );
 
       return () => {
         keyboardWillShowListener?.remove();
         keyboardWillHideListener?.remove();
       };
-    }, [avoidKeyboard, keyboardOffset]);
+    }, [isKeyboardAvoiding, keyboardOffset, sheetEngine]);
 
     // Calculate the final height for the modal - SIMPLIFIED
     const calculatedHeight = React.useMemo(() => {
       // If using snap points, always use the LARGEST snap point as container height
       if (snapPointsInPixels && snapPointsInPixels.length > 0) {
-        return snapPointsInPixels[snapPointsInPixels.length - 1];
+        const largestSnapPoint = Math.max(...snapPointsInPixels);
+        // When the content is the largest snap point, let the sheet grow with it
+        if (hasContentSnapPoint && !isHorizontal && contentSheetHeight >= largestSnapPoint) {
+          return undefined;
+        }
+        return largestSnapPoint;
+      }
+
+      // 'fillParent' grows the sheet into the space above the keyboard
+      if (keyboardSpace !== null && activeKeyboardBehavior === 'fillParent') {
+        return keyboardSpace;
       }
 
       // If height is explicitly provided, use it
@@ -343,16 +1067,30 @@ const ModalSheet = forwardRef<ModalSheetRef, ModalSheetProps>(
         return height;
       }
 
+      // Side sheets are not sized by their content
+      if (isHorizontal) {
+        return effectiveMaxHeight;
+      }
+
       // Otherwise use 'auto' by not setting a fixed height
       return undefined;
-    }, [height, snapPointsInPixels]);
+    }, [
+      height,
+      isHorizontal,
+      effectiveMaxHeight,
+      snapPointsInPixels,
+      hasContentSnapPoint,
+      contentSheetHeight,
+      keyboardSpace,
+      activeKeyboardBehavior,
+    ]);
 
     // Get the translateY offset for a given snap index
     // The sheet is always full height, we just translate it up/down to show different amounts
     const getSnapTranslateY = useCallback(
       (index: number): number => {
         if (!snapPointsInPixels || snapPointsInPixels.length === 0) return 0;
-        const maxHeight = snapPointsInPixels[snapPointsInPixels.length - 1];
+        const maxHeight = Math.max(...snapPointsInPixels);
         const targetHeight = snapPointsInPixels[index];
         // Return how much to hide (push down) from the max height
         return maxHeight - targetHeight;
@@ -360,779 +1098,1421 @@ const ModalSheet = forwardRef<ModalSheetRef, ModalSheetProps>(
       [snapPointsInPixels]
     );
 
-    // Animate sheet position when keyboard appears/disappears
-    useEffect(() => {
-      if (!avoidKeyboard || !visible) return;
-
-      // Animate the sheet up or down based on keyboard height
-      Animated.timing(translateY, {
-        toValue: snapPointsInPixels
-          ? getSnapTranslateY(currentSnapIndex) - keyboardHeight
-          : -keyboardHeight,
-        duration: 250,
-        easing: Easing.out(Easing.cubic),
-        useNativeDriver: true,
-      }).start();
-    }, [
-      keyboardHeight,
-      avoidKeyboard,
-      visible,
-      translateY,
-      snapPointsInPixels,
-      currentSnapIndex,
-      getSnapTranslateY,
-    ]);
-
-    // Snap to a specific snap point
-    const snapToPoint = useCallback(
-      (index: number) => {
-        if (!snapPointsInPixels || index < 0 || index >= snapPointsInPixels.length) return;
-
-        const targetTranslateY = getSnapTranslateY(index);
+    // Position at which a sheet of the given size has just moved out of view
+    const getHiddenPosition = useCallback(
+      (sheetSize: number): number =>
+        isDialog ? (screenSize + sheetSize) / 2 : sheetSize + sheetEdgeOffset,
+      [isDialog, screenSize, sheetEdgeOffset]
+    );
 
-        // Update state
-        setCurrentSnapIndex(index);
-        onSnapPointChange?.(index);
-        setIsAnimating(true);
+    // Apply the sheet's defaults to an animation config
+    const resolveAnimationConfig = useCallback(
+      (config: ModalSheetAnimationConfig): ResolvedAnimationConfig =>
+        config.type === 'spring'
+          ? {
+              type: 'spring',
+              damping: config.damping ?? springDamping,
+              stiffness: config.stiffness ?? DEFAULT_SPRING_STIFFNESS,
+              mass: config.mass ?? 1,
+              overshootClamping: config.overshootClamping ?? false,
+            }
+          : { ...config, duration: config.duration ?? animationDuration },
+      [springDamping, animationDuration]
+    );
 
-        // Use timing with smooth bezier easing
-        Animated.timing(translateY, {
-          toValue: targetTranslateY,
-          duration: 280,
-          easing: Easing.bezier(0.25, 0.1, 0.25, 1),
-          useNativeDriver: true,
-        }).start(() => {
-          setIsAnimating(false);
-        });
+    // Animate the sheet position, starting springs with the given velocity (px/ms)
+    const animatePosition = useCallback(
+      (
+        toValue: number,
+        config: ModalSheetAnimationConfig,
+        velocity = 0,
+        onEnd?: AnimationEndCallback
+      ) => {
+        sheetEngine.animatePosition(toValue, resolveAnimationConfig(config), velocity, onEnd);
       },
-      [snapPointsInPixels, onSnapPointChange, translateY, getSnapTranslateY]
+      [sheetEngine, resolveAnimationConfig]
     );
 
-    // Helper: Determine target snap index based on current position
-    const findTargetSnapIndex = useCallback(
-      (currentTranslateY: number): number | 'close' => {
-        if (!snapPointsInPixels || snapPointsInPixels.length === 0) return currentSnapIndex;
+    // Run an open/close transition: the backdrop and optionally the sheet position together
+    // onEnd runs once, finished only if neither animation was interrupted
+    // A deferred position animation only starts through the returned function, and the
+    // transition lasts until it ends
+    const runTransition = useCallback(
+      (
+        backdropToValue: number,
+        position: {
+          toValue: number;
+          config: ModalSheetAnimationConfig;
+          velocity?: number;
+          deferred?: boolean;
+        } | null,
+        onEnd: AnimationEndCallback
+      ) => {
+        const token = ++transitionToken.current;
+        sheetEngine.stopAnimations();
+        isTransitioning.current = true;
+        setIsInTransition(true);
+
+        let pending = position ? 2 : 1;
+        let hasEnded = false;
+        const end = (finished: boolean) => {
+          if (hasEnded) return;
+          hasEnded = true;
+          onEnd(finished);
+        };
 
-        const maxSnapTranslateY = getSnapTranslateY(0);
+        const handleEnd = (finished: boolean) => {
+          // Superseded by a newer transition
+          if (token !== transitionToken.current) {
+            end(false);
+            return;
+          }
 
-        // Check if should close (dragged beyond smallest snap + threshold)
-        if (currentTranslateY > maxSnapTranslateY + dragThreshold) {
-          return 'close';
-        }
+          if (!finished) {
+            isTransitioning.current = false;
+            setIsInTransition(false);
+            end(false);
+            return;
+          }
 
-        // Find closest snap point to current translateY position
-        let targetIndex = 0;
-        let minDistance = Infinity;
+          pending -= 1;
+          if (pending === 0) {
+            isTransitioning.current = false;
+            setIsInTransition(false);
+            end(true);
+          }
+        };
 
-        for (let i = 0; i < snapPointsInPixels.length; i++) {
-          const snapTranslateY = getSnapTranslateY(i);
-          const distance = Math.abs(currentTranslateY - snapTranslateY);
-          if (distance < minDistance) {
-            minDistance = distance;
-            targetIndex = i;
+        const startPosition = () => {
+          if (position && token === transitionToken.current) {
+            animatePosition(position.toValue, position.config, position.velocity, handleEnd);
           }
+        };
+
+        sheetEngine.animateBackdropOpacity(backdropToValue, animationDuration, handleEnd);
+        if (!position?.deferred) {
+          startPosition();
         }
+        return startPosition;
+      },
+      [sheetEngine, animationDuration, animatePosition]
+    );
 
-        return targetIndex;
+    // Report the snap index the sheet came to rest on, once per change
+    const settle = useCallback(
+      (index: number, position: number) => {
+        if (index === settledIndex.current) return;
+        settledIndex.current = index;
+        onChange?.(index, position);
       },
-      [snapPointsInPixels, currentSnapIndex, dragThreshold, getSnapTranslateY]
+      [onChange]
     );
 
     // Helper: Animate to target snap point
+    // Resolves with whether the snap animation completed
     const animateToSnapPoint = useCallback(
-      (targetIndex: number) => {
-        if (!snapPointsInPixels) return;
+      (targetIndex: number, config?: ModalSheetAnimationConfig, velocity = 0) => {
+        if (!snapPointsInPixels) return Promise.resolve(false);
 
         const targetTranslateY = getSnapTranslateY(targetIndex);
 
         // Update state
+        if (targetIndex !== currentSnapIndex) {
+          onAnimate?.(currentSnapIndex, targetIndex);
+        }
         setCurrentSnapIndex(targetIndex);
         onSnapPointChange?.(targetIndex);
         setIsAnimating(true);
 
-        // Use timing with smooth bezier easing
-        Animated.timing(translateY, {
-          toValue: targetTranslateY,
-          duration: 280,
-          easing: Easing.bezier(0.25, 0.1, 0.25, 1),
-          useNativeDriver: true,
-        }).start(() => {
-          setIsAnimating(false);
+        return new Promise<boolean>(resolve => {
+          animatePosition(
+            targetTranslateY,
+            config ?? animationConfigs?.snap ?? DEFAULT_SNAP_ANIMATION,
+            velocity,
+            finished => {
+              setIsAnimating(false);
+              if (finished) {
+                settle(targetIndex, targetTranslateY);
+              }
+              resolve(finished);
+            }
+          );
         });
       },
-      [snapPointsInPixels, onSnapPointChange, translateY, getSnapTranslateY]
+      [
+        snapPointsInPixels,
+        currentSnapIndex,
+        onAnimate,
+        onSnapPointChange,
+        getSnapTranslateY,
+        animatePosition,
+        animationConfigs?.snap,
+        settle,
+      ]
     );
 
-    // Handle touch start
-    const handleTouchStart = useCallback(
-      (e: GestureResponderEvent) => {
-        // Prevent touch interactions during animation
-        if (isAnimating) return;
+    // Snap to a specific snap point
+    const snapToPoint = useCallback(
+      (index: number, config?: ModalSheetAnimationConfig) => {
+        if (!snapPointsInPixels || index < 0 || index >= snapPointsInPixels.length) {
+          return Promise.resolve(false);
+        }
 
-        touchStartY.current = e.nativeEvent.pageY;
-        touchStartTranslateY.current = (translateY as any)._value || 0;
-        isDragging.current = true;
+        return animateToSnapPoint(index, config);
       },
-      [translateY, isAnimating]
+      [snapPointsInPixels, animateToSnapPoint]
     );
 
-    // Handle touch move
-    const handleTouchMove = useCallback(
-      (e: GestureResponderEvent) => {
-        if (!isDragging.current) return;
+    // Helper: Resting translateY of a released drag
+    // Flicks faster than velocityThreshold are projected forward as if decelerating naturally
+    const getProjectedTranslateY = useCallback(
+      (currentTranslateY: number, velocity: number): number =>
+        Math.abs(velocity) < velocityThreshold
+          ? currentTranslateY
+          : currentTranslateY + projectDistance(velocity, projectionDecay),
+      [velocityThreshold, projectionDecay]
+    );
 
-        const deltaY = e.nativeEvent.pageY - touchStartY.current;
-        const newTranslateY = touchStartTranslateY.current + deltaY;
+    // Helper: Determine target snap index based on current position and release velocity
+    const findTargetSnapIndex = useCallback(
+      (currentTranslateY: number, velocity = 0): number | 'close' => {
+        if (!snapPointsInPixels || snapPointsInPixels.length === 0) return currentSnapIndex;
 
-        // If using snap points
-        if (snapPointsInPixels && snapPointsInPixels.length > 0) {
-          const maxSnapTranslateY = getSnapTranslateY(snapPointsInPixels.length - 1);
-
-          // Only prevent swiping UP (negative deltaY) when at maximum height
-          if (
-            currentSnapIndex === snapPointsInPixels.length - 1 &&
-            newTranslateY < maxSnapTranslateY
-          ) {
-            // Lock at maximum height - don't allow upward movement beyond max
-            translateY.setValue(maxSnapTranslateY);
-            return;
-          }
+        const projectedTranslateY = getProjectedTranslateY(currentTranslateY, velocity);
+        const isFlick = projectedTranslateY !== currentTranslateY;
+        const snapTranslateYs = snapPointsInPixels.map((_: number, i: number) =>
+          getSnapTranslateY(i)
+        );
+        const smallestSnapTranslateY = Math.max(...snapTranslateYs);
 
-          // Allow all downward movement (deltaY > 0 means dragging down)
-          // This allows collapsing from any snap point
+        // Check if should close (dragged or flicked beyond smallest snap + threshold)
+        if (projectedTranslateY > smallestSnapTranslateY + dragThreshold) {
+          return 'close';
         }
 
-        // For non-snap mode, prevent upward dragging beyond 0
-        if (!snapPointsInPixels && newTranslateY < 0) {
-          translateY.setValue(0);
-          return;
+        // A flick always moves in its own direction, so only consider snap points on that side
+        const isInFlickDirection = (snapTranslateY: number) =>
+          (snapTranslateY - currentTranslateY) * velocity >= 0;
+        const considerAll = !isFlick || !snapTranslateYs.some(isInFlickDirection);
+
+        // Find closest snap point to the projected translateY position
+        let targetIndex = 0;
+        let minDistance = Infinity;
+
+        for (let i = 0; i < snapTranslateYs.length; i++) {
+          if (!considerAll && !isInFlickDirection(snapTranslateYs[i])) continue;
+
+          const distance = Math.abs(projectedTranslateY - snapTranslateYs[i]);
+          if (distance < minDistance) {
+            minDistance = distance;
+            targetIndex = i;
+          }
         }
 
-        // Apply translateY for immediate visual feedback during drag
-        translateY.setValue(newTranslateY);
+        return targetIndex;
       },
-      [translateY, snapPointsInPixels, currentSnapIndex, getSnapTranslateY]
+      [
+        snapPointsInPixels,
+        currentSnapIndex,
+        dragThreshold,
+        getSnapTranslateY,
+        getProjectedTranslateY,
+      ]
     );
 
-    const open = useCallback(() => {
-      // Prevent opening if already animating imperatively or already visible
-      if (isImperativelyAnimating.current || visibleRef.current) {
-        return;
-      }
+    const open = useCallback(
+      (config?: ModalSheetAnimationConfig) => {
+        // Prevent opening if already opening or visible (a close in progress is reversed instead)
+        if (visibleRef.current && !isClosing.current) {
+          return transitionResult.current;
+        }
 
-      // Cancel any in-progress animation
-      if (currentAnimation.current) {
-        currentAnimation.current.stop();
-        currentAnimation.current = null;
-      }
+        const isReopening = isClosing.current;
+        isClosing.current = false;
+        resumeClose.current = null;
+        visibleRef.current = true;
+        dismissReason.current = null;
+        setVisible(true);
+        // A reversed close also returns to the initial snap point, so the index follows it
+        setCurrentSnapIndex(initialSnapIndex);
+
+        const openIndex = snapPointsInPixels ? initialSnapIndex : 0;
+        onWillPresent?.();
+        onAnimate?.(-1, openIndex);
+
+        pushSheet(
+          {
+            id: stackId,
+            onCover: behavior => stackHandlers.current.onCover(behavior),
+            onUncover: () => stackHandlers.current.onUncover(),
+          },
+          stackBehavior
+        );
+
+        const openConfig: ModalSheetAnimationConfig = config ??
+          animationConfigs?.open ?? {
+            type: 'timing',
+            duration: animationDuration,
+            easing: sheetEngine.easeOut,
+          };
+
+        // Set initial translateY position
+        // For snap points: use the initial snap index position
+        // For regular mode: start just past the screen edge to animate in like a drawer
+        const targetTranslateY = snapPointsInPixels ? getSnapTranslateY(initialSnapIndex) : 0;
+        if (!isReopening) {
+          const hiddenTranslateY = getHiddenPosition(
+            calculatedHeight ?? (hasMeasured.current ? contentSheetHeight : screenSize)
+          );
+          sheetEngine.setPosition(snapPointsInPixels ? targetTranslateY : hiddenTranslateY);
+        }
 
-      isImperativelyAnimating.current = true;
-      setVisible(true);
-
-      // Set initial translateY position
-      // For snap points: use the initial snap index position
-      // For regular mode: start off-screen to animate in like a drawer
-      const initialTranslateY = snapPointsInPixels
-        ? getSnapTranslateY(initialSnapIndex)
-        : screenHeight;
-      translateY.setValue(initialTranslateY);
-
-      // Animate both backdrop and sheet position
-      currentAnimation.current = Animated.parallel([
-        Animated.timing(backdropOpacityAnim, {
-          toValue: backdropOpacity,
-          duration: animationDuration,
-          useNativeDriver: true,
-        }),
-        // Animate sheet sliding in from bottom (only for non-snap mode)
-        ...(!snapPointsInPixels
-          ? [
-              Animated.timing(translateY, {
-                toValue: 0,
-                duration: animationDuration,
-                easing: Easing.out(Easing.cubic),
-                useNativeDriver: true,
-              }),
-            ]
-          : []),
-      ]);
-
-      currentAnimation.current.start(() => {
-        currentAnimation.current = null;
-        isImperativelyAnimating.current = false;
-
-        // Defer only the callback to avoid useInsertionEffect warning
-        setTimeout(() => {
-          onOpen?.();
-        }, 0);
-      });
-    }, [
-      snapPointsInPixels,
-      initialSnapIndex,
-      backdropOpacity,
-      animationDuration,
-      onOpen,
-      translateY,
-      backdropOpacityAnim,
-      getSnapTranslateY,
-      screenHeight,
-    ]);
+        // Auto-height sheets slide in from their own height once the content is measured
+        const isSlideInDeferred = isAutoHeight && !hasMeasured.current && !isReopening;
+
+        // Animate both backdrop and sheet position
+        // The sheet slides in from bottom in non-snap mode, or when reversing an interrupted close
+        transitionResult.current = new Promise<boolean>(resolve => {
+          const startSlideIn = runTransition(
+            backdropOpacity,
+            !snapPointsInPixels || isReopening
+              ? { toValue: targetTranslateY, config: openConfig, deferred: isSlideInDeferred }
+              : null,
+            finished => {
+              if (!finished) {
+                resolve(false);
+                return;
+              }
+
+              // Defer only the callback to avoid useInsertionEffect warning
+              setTimeout(() => {
+                settle(openIndex, targetTranslateY);
+                onDidPresent?.();
+                onOpen?.();
+                resolve(true);
+              }, 0);
+            }
+          );
+          pendingSlideIn.current = isSlideInDeferred ? startSlideIn : null;
+        });
+        return transitionResult.current;
+      },
+      [
+        snapPointsInPixels,
+        initialSnapIndex,
+        calculatedHeight,
+        isAutoHeight,
+        contentSheetHeight,
+        backdropOpacity,
+        animationDuration,
+        animationConfigs?.open,
+        onOpen,
+        onWillPresent,
+        onDidPresent,
+        onAnimate,
+        settle,
+        sheetEngine,
+        getSnapTranslateY,
+        runTransition,
+        screenSize,
+        getHiddenPosition,
+        stackId,
+        stackBehavior,
+      ]
+    );
 
-    const close = useCallback(() => {
-      // Only prevent if already closed (allow swipe gesture to close)
-      if (!visibleRef.current) {
-        return;
-      }
+    const close = useCallback(
+      (config?: ModalSheetAnimationConfig, velocity = 0, reason?: ModalSheetDismissReason) => {
+        // Only prevent if already closed or closing (allow swipe gesture to close)
+        if (!visibleRef.current || isClosing.current) {
+          return transitionResult.current;
+        }
 
-      // Cancel any in-progress animation
-      if (currentAnimation.current) {
-        currentAnimation.current.stop();
-        currentAnimation.current = null;
-      }
+        // Set flag to prevent rapid imperative calls; open() reverses it
+        isClosing.current = true;
+        pendingSlideIn.current = null;
+        // The sheet below comes back while this one slides away
+        removeSheet(stackId);
+
+        // In controlled mode a user dismissal reaches close() through the isVisible prop
+        const closeReason = reason ?? dismissReason.current ?? 'programmatic';
+        dismissReason.current = null;
+        onWillDismiss?.(closeReason);
+        onAnimate?.(snapPointsInPixels ? currentSnapIndex : 0, -1);
+
+        const closeConfig: ModalSheetAnimationConfig = config ??
+          animationConfigs?.close ?? { type: 'timing', duration: animationDuration * 0.8 };
+
+        // Move completely off screen + extra margin
+        transitionResult.current = new Promise<boolean>(resolve => {
+          const slideOut = (releaseVelocity: number) =>
+            runTransition(
+              0,
+              { toValue: screenSize + 100, config: closeConfig, velocity: releaseVelocity },
+              handleEnd
+            );
+
+          const handleEnd = (finished: boolean) => {
+            if (!finished) {
+              // A drag already under way when the close started took the sheet over,
+              // releasing it slides the sheet out the rest of the way
+              if (isClosing.current && isDragging.current) {
+                resumeClose.current = slideOut;
+                return;
+              }
+              resolve(false);
+              return;
+            }
 
-      // Set flag to prevent rapid imperative calls, but allow swipe
-      isImperativelyAnimating.current = true;
-
-      currentAnimation.current = Animated.parallel([
-        Animated.timing(backdropOpacityAnim, {
-          toValue: 0,
-          duration: animationDuration,
-          useNativeDriver: true,
-        }),
-        Animated.timing(translateY, {
-          toValue: screenHeight + 100, // Move completely off screen + extra margin
-          duration: animationDuration * 0.8,
-          useNativeDriver: true,
-        }),
-      ]);
-
-      currentAnimation.current.start(() => {
-        currentAnimation.current = null;
-        isImperativelyAnimating.current = false;
-
-        // Defer state updates to avoid useInsertionEffect warning
-        setTimeout(() => {
-          setVisible(false);
-          onClose?.();
-        }, 0);
-      });
-    }, [animationDuration, screenHeight, onClose, translateY, backdropOpacityAnim]);
+            // Defer state updates to avoid useInsertionEffect warning
+            setTimeout(() => {
+              // The sheet may have been reopened while the update was deferred
+              if (!isClosing.current) {
+                resolve(false);
+                return;
+              }
+              isClosing.current = false;
+              visibleRef.current = false;
+              setVisible(false);
+              settle(-1, screenSize + 100);
+              onDidDismiss?.(closeReason);
+              // In controlled mode onClose was already called as the dismissal request
+              if (!isControlled) {
+                onClose?.(closeReason);
+              }
+              resolve(true);
+            }, 0);
+          };
+
+          slideOut(velocity);
+        });
+        return transitionResult.current;
+      },
+      [
+        animationDuration,
+        animationConfigs?.close,
+        screenSize,
+        isControlled,
+        onClose,
+        onWillDismiss,
+        onDidDismiss,
+        onAnimate,
+        settle,
+        snapPointsInPixels,
+        currentSnapIndex,
+        runTransition,
+        stackId,
+      ]
+    );
 
-    // Handle mouse events for web platform
-    const handleMouseDown = useCallback(
-      (e: any) => {
-        // Prevent default to avoid text selection during drag
-        e.preventDefault?.();
+    // Return to the current snap point after a dismissal that did not close the sheet
+    const settleBack = useCallback(
+      (velocity = 0) => {
+        animatePosition(
+          snapPointsInPixels ? getSnapTranslateY(currentSnapIndex) : 0,
+          animationConfigs?.snap ?? DEFAULT_SNAP_ANIMATION,
+          velocity
+        );
+      },
+      [
+        snapPointsInPixels,
+        currentSnapIndex,
+        getSnapTranslateY,
+        animatePosition,
+        animationConfigs?.snap,
+      ]
+    );
 
-        // Prevent if animating
-        if (isAnimating) return;
+    // Close the sheet for a dismissal that passed onBeforeClose
+    // In controlled mode the parent decides: the sheet settles back and onClose is called
+    const dismiss = useCallback(
+      (reason: ModalSheetDismissReason, velocity = 0) => {
+        if (!isControlled) {
+          close(undefined, velocity, reason);
+          return;
+        }
 
-        const pageY = e.pageY || e.clientY;
-        touchStartY.current = pageY;
-        touchStartTranslateY.current = (translateY as any)._value || 0;
-        isMouseDragging.current = true;
+        if (!visibleRef.current || isClosing.current) return;
+
+        settleBack(velocity);
+        dismissReason.current = reason;
+        onClose?.(reason);
       },
-      [translateY, isAnimating]
+      [isControlled, close, onClose, settleBack]
     );
 
-    const handleMouseMove = useCallback(
-      (e: any) => {
-        if (!isMouseDragging.current) return;
+    // An onBeforeClose promise may settle after a re-render, so it closes with the latest dismiss
+    const latestDismiss = useRef(dismiss);
+    latestDismiss.current = dismiss;
+    // Further dismissals are held while onBeforeClose is deciding
+    const isGuardPending = useRef(false);
+
+    // Dismissal initiated by the user (backdrop, handle, swipe, back button, scroll)
+    // preventDismiss and onBeforeClose can veto it, settling the sheet back instead
+    const requestClose = useCallback(
+      (reason: ModalSheetDismissReason, velocity = 0) => {
+        // Persistent sheets collapse to their peek snap point instead
+        if (persistent) {
+          if (!visibleRef.current || isClosing.current) return;
+          if (snapPointsInPixels) {
+            animateToSnapPoint(0, undefined, velocity);
+          } else {
+            animatePosition(0, animationConfigs?.snap ?? DEFAULT_SNAP_ANIMATION, velocity);
+          }
+          return;
+        }
 
-        const pageY = e.pageY || e.clientY;
-        const deltaY = pageY - touchStartY.current;
-        const newTranslateY = touchStartTranslateY.current + deltaY;
+        if (!visibleRef.current || isClosing.current) return;
 
-        // If using snap points
-        if (snapPointsInPixels && snapPointsInPixels.length > 0) {
-          const maxSnapTranslateY = getSnapTranslateY(snapPointsInPixels.length - 1);
-
-          // Only prevent swiping UP (negative deltaY) when at maximum height
-          if (
-            currentSnapIndex === snapPointsInPixels.length - 1 &&
-            newTranslateY < maxSnapTranslateY
-          ) {
-            // Lock at maximum height
-            translateY.setValue(maxSnapTranslateY);
-            return;
-          }
+        // Being replaced by a stacked sheet is not up to the user, so it skips the guard
+        if (reason === 'programmatic') {
+          dismiss(reason, velocity);
+          return;
         }
 
-        // For non-snap mode, prevent upward dragging beyond 0
-        if (!snapPointsInPixels && newTranslateY < 0) {
-          translateY.setValue(0);
+        if (preventDismiss || isGuardPending.current) {
+          settleBack(velocity);
           return;
         }
 
-        // Apply translateY for immediate visual feedback during drag
-        translateY.setValue(newTranslateY);
+        const verdict = onBeforeClose ? onBeforeClose(reason) : true;
+        if (verdict === true) {
+          dismiss(reason, velocity);
+          return;
+        }
+
+        // Vetoed, or kept open while the answer is pending (e.g. a "discard changes?" prompt)
+        settleBack(velocity);
+        if (verdict === false) return;
+
+        isGuardPending.current = true;
+        Promise.resolve(verdict)
+          // A rejected promise vetoes the dismissal, like false
+          .catch(() => false)
+          .finally(() => {
+            isGuardPending.current = false;
+          })
+          .then(allowed => {
+            if (allowed) {
+              latestDismiss.current(reason);
+            }
+          });
       },
-      [translateY, snapPointsInPixels, currentSnapIndex, getSnapTranslateY]
+      [
+        persistent,
+        preventDismiss,
+        onBeforeClose,
+        dismiss,
+        settleBack,
+        snapPointsInPixels,
+        animateToSnapPoint,
+        animatePosition,
+        animationConfigs?.snap,
+      ]
     );
 
-    const handleMouseUp = useCallback(
-      (e: any) => {
-        if (!isMouseDragging.current) return;
-        isMouseDragging.current = false;
+    // Backdrop, handle and back button dismissal carry no gesture velocity
+    // A covered sheet leaves them to the sheet on top
+    const handleDismissPress = useCallback(
+      (reason: ModalSheetDismissReason) => {
+        if (isCovered) return;
+        requestClose(reason);
+      },
+      [isCovered, requestClose]
+    );
 
-        const pageY = e.pageY || e.clientY;
-        const currentTranslateY = (translateY as any)._value || 0;
+    const handleHandlePress = useCallback(() => handleDismissPress('swipe'), [handleDismissPress]);
 
-        // Handle snap points behavior
-        if (snapPointsInPixels && snapPointsInPixels.length > 0) {
-          const target = findTargetSnapIndex(currentTranslateY);
+    const handleHardwareBack = useCallback(
+      () => handleDismissPress('hardwareBack'),
+      [handleDismissPress]
+    );
 
-          if (target === 'close') {
-            close();
-            return;
-          }
+    const handleEscape = useCallback(() => handleDismissPress('escape'), [handleDismissPress]);
 
-          // Animate to target snap point
-          animateToSnapPoint(target);
-        } else {
-          const deltaY = pageY - touchStartY.current;
-          // Original behavior without snap points
-          const isSwipeDown = deltaY > dragThreshold;
-
-          if (isSwipeDown && deltaY > 0) {
-            Animated.parallel([
-              Animated.timing(backdropOpacityAnim, {
-                toValue: 0,
-                duration: 50,
-                useNativeDriver: true,
-              }),
-              Animated.timing(translateY, {
-                toValue: screenHeight + 100,
-                duration: 50,
-                useNativeDriver: true,
-              }),
-            ]).start(() => {
-              setTimeout(() => {
-                setVisible(false);
-                onClose?.();
-              }, 0);
-            });
-          } else {
-            Animated.timing(translateY, {
-              toValue: 0,
-              duration: 50,
-              easing: Easing.out(Easing.ease),
-              useNativeDriver: true,
-            }).start();
-          }
+    // Step to the next larger (1) or smaller (-1) snap point, for keyboard users on the handle
+    const stepSnapPoint = useCallback(
+      (step: 1 | -1) => {
+        if (!snapPointsInPixels || isCovered || !visibleRef.current || isClosing.current) return;
+
+        const indexesBySize = snapPointsInPixels
+          .map((_, index) => index)
+          .sort((a, b) => snapPointsInPixels[a] - snapPointsInPixels[b]);
+        const nextIndex = indexesBySize[indexesBySize.indexOf(currentSnapIndex) + step];
+        if (nextIndex !== undefined) {
+          animateToSnapPoint(nextIndex);
         }
       },
-      [
-        snapPointsInPixels,
-        findTargetSnapIndex,
-        animateToSnapPoint,
-        close,
-        translateY,
-        dragThreshold,
-        backdropOpacityAnim,
-        screenHeight,
-        onClose,
-      ]
+      [snapPointsInPixels, isCovered, currentSnapIndex, animateToSnapPoint]
     );
 
-    // Add global mouse event listeners for web platform
+    // Called by the sheet stack, so always pointing at the latest render's state
+    const stackHandlers = useRef({
+      onCover: (_behavior: StackBehavior) => {},
+      onUncover: () => {},
+    });
+    stackHandlers.current = {
+      onCover: behavior => {
+        if (behavior === 'replace') {
+          requestClose('programmatic');
+          return;
+        }
+
+        setCoveredBy(behavior);
+        if (behavior === 'push') {
+          sheetEngine.animateCover(1, animationDuration);
+        } else {
+          animatePosition(
+            screenSize + 100,
+            animationConfigs?.close ?? { type: 'timing', duration: animationDuration * 0.8 }
+          );
+          sheetEngine.animateBackdropOpacity(0, animationDuration);
+        }
+      },
+      onUncover: () => {
+        setCoveredBy(null);
+        if (!visibleRef.current || isClosing.current) return;
+
+        if (coveredBy === 'switch') {
+          animatePosition(
+            snapPointsInPixels ? getSnapTranslateY(currentSnapIndex) : 0,
+            animationConfigs?.open ?? {
+              type: 'timing',
+              duration: animationDuration,
+              easing: sheetEngine.easeOut,
+            }
+          );
+          sheetEngine.animateBackdropOpacity(backdropOpacity, animationDuration);
+        } else {
+          sheetEngine.animateCover(0, animationDuration);
+        }
+      },
+    };
+
+    // An unmounted sheet must not stay in the stack
+    useEffect(() => () => removeSheet(stackId), [stackId]);
+
+    // Without a Modal there is no onRequestClose, so the Android back button is handled here
+    // The most recently added listener runs first, so each sheet subscribes once per opening
+    // and reads the latest state through a ref
+    const hardwareBack = useRef({ isCovered, persistent, currentSnapIndex, handleHardwareBack });
+    hardwareBack.current = { isCovered, persistent, currentSnapIndex, handleHardwareBack };
     useEffect(() => {
-      // Only set up listeners on web platform
-      if (
-        Platform.OS === 'web' &&
-        typeof globalThis !== 'undefined' &&
-        (globalThis as any).document
-      ) {
-        const handleGlobalMouseUp = (e: MouseEvent) => {
-          if (isMouseDragging.current) {
-            handleMouseUp(e);
-          }
-        };
+      if (presentation === 'modal' || !visible) return;
+
+      const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+        const latest = hardwareBack.current;
+        // A covered sheet leaves the back button to the sheet on top, and a collapsed
+        // persistent sheet leaves it to the screen
+        if (latest.isCovered || (latest.persistent && latest.currentSnapIndex === 0)) {
+          return false;
+        }
 
-        const handleGlobalMouseMove = (e: MouseEvent) => {
-          if (isMouseDragging.current) {
-            handleMouseMove(e);
-          }
-        };
+        latest.handleHardwareBack();
+        return true;
+      });
+      return () => subscription.remove();
+    }, [presentation, visible]);
+
+    // On the web, the sheet takes the focus and handles Escape and the handle's arrow keys
+    const isModal = sheetAriaProps['aria-modal'] ?? !persistent;
+    const sheetNodeId = `modal-sheet-${stackId}`;
+    const handleNodeId = `${sheetNodeId}-handle`;
+    useWebSheetFocus({
+      sheetId: sheetNodeId,
+      handleId: handleNodeId,
+      direction,
+      isOpen: visible,
+      isTopmost: !isCovered,
+      isModal,
+      onEscape: handleEscape,
+      onStep: stepSnapPoint,
+    });
+
+    // Persistent sheets are on screen from the start
+    const shouldOpenOnMount = useRef(persistent && !isControlled);
+    useEffect(() => {
+      if (!shouldOpenOnMount.current) return;
+      shouldOpenOnMount.current = false;
+      open();
+    }, [open]);
 
-        const doc = (globalThis as any).document;
-        doc.addEventListener('mouseup', handleGlobalMouseUp);
-        doc.addEventListener('mousemove', handleGlobalMouseMove);
+    // Controlled mode: run the same animated open/close paths when isVisible changes
+    useEffect(() => {
+      if (isVisible === undefined) return;
 
-        return () => {
-          doc.removeEventListener('mouseup', handleGlobalMouseUp);
-          doc.removeEventListener('mousemove', handleGlobalMouseMove);
-        };
+      if (isVisible) {
+        open();
+      } else {
+        close();
       }
+    }, [isVisible, open, close]);
 
-      // Return undefined for all other cases
-      return undefined;
-    }, [handleMouseUp, handleMouseMove]);
+    // A handle drag took over the sheet position
+    const handleDragStart = useCallback(() => {
+      isDragging.current = true;
+    }, []);
 
-    // Handle touch end
-    const handleTouchEnd = useCallback(
-      (e: GestureResponderEvent) => {
-        if (!isDragging.current) return;
+    // Settle the sheet after a handle drag, carrying the release velocity into the animation
+    const handleDragEnd = useCallback(
+      (velocity: number, reason: ModalSheetDismissReason = 'swipe') => {
         isDragging.current = false;
 
-        const currentTranslateY = (translateY as any)._value || 0;
+        // A close started during the drag: the release finishes it instead of settling the sheet
+        if (isClosing.current || !visibleRef.current) {
+          const resume = resumeClose.current;
+          resumeClose.current = null;
+          resume?.(velocity);
+          return;
+        }
+        const currentTranslateY = sheetEngine.getPosition();
 
         // Handle snap points behavior
         if (snapPointsInPixels && snapPointsInPixels.length > 0) {
-          const target = findTargetSnapIndex(currentTranslateY);
+          const target = findTargetSnapIndex(currentTranslateY, velocity);
 
           if (target === 'close') {
-            close();
+            requestClose(reason, velocity);
             return;
           }
 
           // Animate to target snap point
-          animateToSnapPoint(target);
+          animateToSnapPoint(target, undefined, velocity);
         } else {
-          const deltaY = e.nativeEvent.pageY - touchStartY.current;
-          // Original behavior without snap points
-          const isSwipeDown = deltaY > dragThreshold;
-
-          if (isSwipeDown && deltaY > 0) {
-            Animated.parallel([
-              Animated.timing(backdropOpacityAnim, {
-                toValue: 0,
-                duration: 50,
-                useNativeDriver: true,
-              }),
-              Animated.timing(translateY, {
-                toValue: screenHeight + 100,
-                duration: 50,
-                useNativeDriver: true,
-              }),
-            ]).start(() => {
-              setTimeout(() => {
-                setVisible(false);
-                onClose?.();
-              }, 0);
-            });
+          // Without snap points, close when the drag (or the projected flick) passes the threshold
+          const isSwipeDown = getProjectedTranslateY(currentTranslateY, velocity) > dragThreshold;
+
+          if (isSwipeDown) {
+            requestClose(reason, velocity);
           } else {
-            Animated.timing(translateY, {
-              toValue: 0,
-              duration: 50,
-              easing: Easing.out(Easing.ease),
-              useNativeDriver: true,
-            }).start();
+            animatePosition(0, animationConfigs?.snap ?? DEFAULT_SNAP_ANIMATION, velocity);
           }
         }
       },
       [
+        sheetEngine,
         snapPointsInPixels,
         findTargetSnapIndex,
         animateToSnapPoint,
-        close,
-        translateY,
+        requestClose,
         dragThreshold,
-        backdropOpacityAnim,
-        screenHeight,
-        onClose,
+        getProjectedTranslateY,
+        animatePosition,
+        animationConfigs?.snap,
       ]
     );
 
-    // Handle scroll begin drag - track initial scroll position
-    const handleScrollBeginDrag = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
-      const { contentOffset } = event.nativeEvent;
-      scrollStartY.current = contentOffset.y;
-      isDraggingSheet.current = false;
+    // Drags by scrollables, nested or forwarding their scroll events, dismiss with 'scroll'
+    const handleScrollDragEnd = useCallback(
+      (velocity: number) => handleDragEnd(velocity, 'scroll'),
+      [handleDragEnd]
+    );
+
+    // Nested ModalSheet scrollables drag the sheet through the same release logic as the handle
+    const isExpanded = !snapPointsInPixels || getSnapTranslateY(currentSnapIndex) <= 0;
+    const [scrollableCount, setScrollableCount] = useState(0);
+    const scrollables = useRef(new Set<() => any>());
+    const registerScrollable = useCallback((getInstance: () => any) => {
+      scrollables.current.add(getInstance);
+      setScrollableCount(count => count + 1);
+      return () => {
+        scrollables.current.delete(getInstance);
+        setScrollableCount(count => count - 1);
+      };
     }, []);
 
-    // Handle scroll end drag - check if user tried to pull down at top to collapse
-    const handleScrollEndDrag = useCallback(
-      (event: NativeSyntheticEvent<NativeScrollEvent>) => {
-        if (!snapPointsInPixels || snapPointsInPixels.length === 0) {
-          return;
-        }
+    // Height the sheet is laid out with, which the keyboard can limit
+    const sheetLayoutHeight = Math.min(calculatedHeight ?? contentSheetHeight, effectiveMaxHeight);
+    const keyboardLayout = useRef({
+      inset: keyboardInset,
+      bottomOffset: sheetEdgeOffset,
+      sheetHeight: sheetLayoutHeight,
+    });
+    // Snap index the sheet was on when the keyboard appeared, for keyboardBlurBehavior="restore"
+    const indexBeforeKeyboard = useRef<number | null>(null);
+
+    // Follow the keyboard: the sheet is lifted above it by its bottom offset and may be resized,
+    // which moves its top edge at once. Offset the position before paint to keep the sheet in
+    // place, then animate it to its snap point along with the keyboard
+    useLayoutEffect(() => {
+      const previous = keyboardLayout.current;
+      keyboardLayout.current = {
+        inset: keyboardInset,
+        bottomOffset: sheetEdgeOffset,
+        sheetHeight: sheetLayoutHeight,
+      };
+      if (keyboardInset === previous.inset) return;
 
-        const { contentOffset, velocity } = event.nativeEvent;
-        const currentScrollY = contentOffset.y;
+      const isShowing = keyboardInset > 0;
+      if (isShowing && previous.inset === 0) {
+        indexBeforeKeyboard.current = currentSnapIndex;
+      }
+      const restoreIndex = indexBeforeKeyboard.current;
+      if (!isShowing) {
+        indexBeforeKeyboard.current = null;
+      }
 
-        // Check if scroll started at top (scrollY = 0) and user pulled down
-        const isAtTop = scrollStartY.current <= 0 && currentScrollY <= 0;
+      // An open transition or a drag keeps control of the position
+      if (
+        !visibleRef.current ||
+        isClosing.current ||
+        isTransitioning.current ||
+        isDragging.current
+      ) {
+        return;
+      }
 
-        // If at top and has downward velocity (negative means pulling down)
-        if (isAtTop && velocity && velocity.y < -0.3) {
-          // Prevent multiple rapid triggers
-          if (!canExpandFromScroll.current) return;
+      sheetEngine.setPosition(
+        sheetEngine.getPosition() +
+          sheetEdgeOffset -
+          previous.bottomOffset +
+          sheetLayoutHeight -
+          previous.sheetHeight
+      );
 
-          canExpandFromScroll.current = false;
+      const revealFocusedInput = (finished: boolean) => {
+        if (!finished || !isShowing) return;
+        const visibleBottom = screenHeight - keyboardInset;
+        scrollables.current.forEach(getInstance =>
+          scrollFocusedInputIntoView(getInstance(), visibleBottom)
+        );
+      };
 
-          const velocityMagnitude = Math.abs(velocity.y);
+      if (!snapPointsInPixels) {
+        animatePosition(0, keyboardAnimation.current, 0, revealFocusedInput);
+        return;
+      }
 
-          // Check for big/fast swipe - close completely (lowered threshold)
-          if (velocityMagnitude > 1.0) {
-            close();
-          } else {
-            // Normal pull - move to previous snap point
-            const targetIndex = currentSnapIndex - 1;
-
-            // Close if at first snap point or target is below 0
-            if (currentSnapIndex === 0 || targetIndex < 0) {
-              close();
-            } else {
-              snapToPoint(targetIndex);
-            }
-          }
+      let targetIndex = currentSnapIndex;
+      if (isShowing && activeKeyboardBehavior === 'extend') {
+        targetIndex = snapPointsInPixels.indexOf(Math.max(...snapPointsInPixels));
+      } else if (!isShowing && keyboardBlurBehavior === 'restore' && restoreIndex !== null) {
+        targetIndex = restoreIndex;
+      }
+      animateToSnapPoint(targetIndex, keyboardAnimation.current).then(revealFocusedInput);
+    }, [
+      keyboardInset,
+      sheetEdgeOffset,
+      sheetLayoutHeight,
+      currentSnapIndex,
+      screenHeight,
+      snapPointsInPixels,
+      activeKeyboardBehavior,
+      keyboardBlurBehavior,
+      sheetEngine,
+      animatePosition,
+      animateToSnapPoint,
+    ]);
 
-          // Reset flag after animation completes
-          setTimeout(() => {
-            canExpandFromScroll.current = true;
-          }, 400);
-        }
+    // Positions of the snap points and of the closed sheet, from which the fractional snap index
+    // is derived (-1 once the sheet has moved out of view)
+    const snapIndexRange = React.useMemo<SnapIndexRange>(() => {
+      const points = snapPointsInPixels
+        ? snapPointsInPixels.map((_, index) => ({ position: getSnapTranslateY(index), index }))
+        : [{ position: 0, index: 0 }];
+      const closedPosition = getHiddenPosition(
+        snapPointsInPixels
+          ? Math.max(...snapPointsInPixels)
+          : (calculatedHeight ?? contentSheetHeight)
+      );
+      points.push({ position: Math.max(closedPosition, 1), index: -1 });
+
+      const sorted = points
+        .sort((a, b) => a.position - b.position)
+        .filter((point, i, all) => i === 0 || point.position > all[i - 1].position);
+      return {
+        positions: sorted.map(point => point.position),
+        indexes: sorted.map(point => point.index),
+      };
+    }, [
+      snapPointsInPixels,
+      getSnapTranslateY,
+      calculatedHeight,
+      contentSheetHeight,
+      getHiddenPosition,
+    ]);
+    const animatedIndexValue = useAnimatedIndex(sheetEngine, snapIndexRange);
+    useAnimationTargets(
+      sheetEngine,
+      { position: animatedPosition, index: animatedIndex },
+      snapIndexRange
+    );
+
+    // Scrollables only hand the gesture over to bottom sheets
+    const isScrollHandoffEnabled = enableScrollToExpand && direction === 'bottom' && !isDialog;
+
+    // Snaps and open/close transitions hold the sheet, as does a sheet stacked on top
+    const isDragEnabled = !isAnimating && !isInTransition && !isCovered;
+
+    const contextValue = React.useMemo<ModalSheetContextValue>(
+      () => ({
+        engine: sheetEngine,
+        animatedIndex: animatedIndexValue,
+        expanded: isExpanded,
+        scrollHandoff: isScrollHandoffEnabled,
+        enabled: isDragEnabled,
+        onDragStart: handleDragStart,
+        onDragEnd: handleScrollDragEnd,
+        registerScrollable,
+      }),
+      [
+        sheetEngine,
+        animatedIndexValue,
+        isExpanded,
+        isScrollHandoffEnabled,
+        isDragEnabled,
+        handleDragStart,
+        handleScrollDragEnd,
+        registerScrollable,
+      ]
+    );
+
+    // Content panning covers the handle too, so the handle's own drag area steps aside
+    const isContentPanningEnabled = enableContentPanning ?? scrollableCount === 0;
+
+    // Handle scroll begin drag - start following the user's scroll gesture
+    const handleScrollBeginDrag = useCallback(
+      (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        if (!isScrollHandoffEnabled || !visibleRef.current || isClosing.current) return;
+
+        scrollDrag.current = {
+          lastOffsetY: event.nativeEvent.contentOffset.y,
+          isMovingSheet: false,
+        };
       },
-      [snapPointsInPixels, currentSnapIndex, snapToPoint, close]
+      [isScrollHandoffEnabled]
     );
 
-    // Handle scroll events for scroll-to-expand behavior
+    // Handle scroll events - move the sheet 1:1 with the finger when the content can't scroll
     const handleScroll = useCallback(
       (event: NativeSyntheticEvent<NativeScrollEvent>) => {
-        if (!enableScrollToExpand || !snapPointsInPixels || snapPointsInPixels.length === 0) {
-          return;
+        // Momentum scrolling after the finger is lifted never moves the sheet
+        const drag = scrollDrag.current;
+        if (!drag || !isDragEnabled) return;
+
+        const offsetY = event.nativeEvent.contentOffset.y;
+        // Finger movement, positive when pulling down
+        const deltaY = drag.lastOffsetY - offsetY;
+        drag.lastOffsetY = offsetY;
+        if (deltaY === 0) return;
+
+        const position = sheetEngine.getPosition();
+
+        // Take over when pulling down past the top of the content,
+        // or when pushing up while the sheet is below its largest snap point
+        if (!drag.isMovingSheet) {
+          const isPullingDownAtTop = deltaY > 0 && offsetY < 0;
+          const isPushingUpBelowMax = deltaY < 0 && position > 0;
+          if (!isPullingDownAtTop && !isPushingUpBelowMax) return;
+
+          drag.isMovingSheet = true;
+          handleDragStart();
         }
 
+        // Never allow dragging above the fully expanded position
+        sheetEngine.setPosition(Math.max(position + deltaY, 0));
+      },
+      [isDragEnabled, sheetEngine, handleDragStart]
+    );
+
+    // Handle scroll end drag - settle the sheet with the same release logic as the handle
+    const handleScrollEndDrag = useCallback(
+      (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const drag = scrollDrag.current;
+        scrollDrag.current = null;
+        if (!drag) return;
+
         const { contentOffset, velocity } = event.nativeEvent;
-        const currentScrollY = contentOffset.y;
+        // Scroll velocity is positive while the content moves up, the opposite of the finger
+        const releaseVelocity = velocity ? -velocity.y : 0;
 
-        // Store velocity for expansion detection
-        if (velocity) {
-          scrollVelocity.current = velocity.y;
+        if (drag.isMovingSheet) {
+          handleScrollDragEnd(releaseVelocity);
+          return;
         }
 
-        // Check if user is scrolling down (trying to see more content below)
-        const isScrollingDown = currentScrollY > lastScrollY.current;
-        // Check if user is scrolling up (at top, trying to go back)
-        const isScrollingUp = currentScrollY < lastScrollY.current;
-        const isAtTop = currentScrollY <= 0;
-
-        // If scrolling down and not at max snap point, expand to show more content
-        if (
-          isScrollingDown &&
-          canExpandFromScroll.current &&
-          currentSnapIndex < snapPointsInPixels.length - 1
-        ) {
-          const scrollDelta = currentScrollY - lastScrollY.current;
-
-          // If scroll delta exceeds threshold or has downward velocity, expand
-          if (scrollDelta >= scrollExpandThreshold || (velocity && velocity.y > 0.8)) {
-            canExpandFromScroll.current = false;
-
-            // Determine how many snap points to jump based on velocity
-            let targetIndex = currentSnapIndex + 1;
-            if (velocity && velocity.y > 3.5) {
-              // Very big swipe down - jump to the last snap point
-              targetIndex = snapPointsInPixels.length - 1;
-            } else if (velocity && velocity.y > 2.2) {
-              // Medium swipe - jump 2 snap points
-              targetIndex = Math.min(currentSnapIndex + 2, snapPointsInPixels.length - 1);
+        // Without overscroll (Android, or bounces disabled) a pull at the top only shows up
+        // as release velocity, so treat a fast one as a flick of the sheet
+        if (contentOffset.y <= 0 && releaseVelocity >= velocityThreshold) {
+          handleDragStart();
+          handleScrollDragEnd(releaseVelocity);
+        }
+      },
+      [velocityThreshold, handleDragStart, handleScrollDragEnd]
+    );
+
+    // Expose imperative methods through ref
+    // In controlled mode visibility belongs to isVisible, so open/close are ignored
+    useImperativeHandle(ref, () => {
+      const guardControlled =
+        (method: string, action: (config?: ModalSheetAnimationConfig) => Promise<boolean>) =>
+        (config?: ModalSheetAnimationConfig) => {
+          if (isControlled) {
+            if (__DEV__) {
+              console.warn(
+                `ModalSheet: ${method}() is ignored in controlled mode. Toggle the isVisible prop instead.`
+              );
             }
-            // Otherwise just move to next snap point (gentle scroll)
+            return Promise.resolve(false);
+          }
+          return action(config);
+        };
 
-            snapToPoint(targetIndex);
+      return {
+        open: guardControlled('open', open),
+        close: guardControlled('close', close),
+        present: guardControlled('present', open),
+        dismiss: guardControlled('dismiss', close),
+        snapToPoint,
+        handleScroll,
+        handleScrollBeginDrag,
+        handleScrollEndDrag,
+      };
+    });
 
-            // Reset flag after animation
-            setTimeout(() => {
-              canExpandFromScroll.current = true;
-            }, 500);
-          }
-        }
+    useEffect(() => {
+      if (!visible) {
+        sheetEngine.setPosition(screenSize + 100);
+        sheetEngine.setBackdropOpacity(0);
+        sheetEngine.animateCover(0, 0);
+        setCoveredBy(null);
+        // Reset measurement flag when sheet closes
+        hasMeasured.current = false;
+        setMeasuredContentHeight(0);
+      }
+    }, [visible, screenSize, sheetEngine]);
 
-        // If scrolling up at the top, collapse to previous snap point or close
-        if (isAtTop && isScrollingUp && canExpandFromScroll.current) {
-          const scrollDelta = Math.abs(lastScrollY.current - currentScrollY);
-
-          // If scroll delta exceeds threshold or has upward velocity
-          if (scrollDelta >= scrollExpandThreshold || (velocity && velocity.y < -0.8)) {
-            canExpandFromScroll.current = false;
-
-            // Determine how many snap points to jump back based on velocity
-            let targetIndex = currentSnapIndex - 1;
-            if (velocity && velocity.y < -3.5) {
-              // Very big swipe up - jump to first snap point or close
-              targetIndex = 0;
-            } else if (velocity && velocity.y < -2.2) {
-              // Medium swipe - jump back 2 snap points
-              targetIndex = Math.max(currentSnapIndex - 2, 0);
-            }
-            // Otherwise just move to previous snap point (gentle scroll)
+    // A sheet switched away for the one on top must stay out of view when the window grows
+    const previousScreenSize = useRef(screenSize);
+    useEffect(() => {
+      if (screenSize === previousScreenSize.current) return;
+      previousScreenSize.current = screenSize;
 
-            // If target is below 0 or we're at the first snap point, close the modal
-            if (targetIndex < 0 || currentSnapIndex === 0) {
-              close();
-            } else {
-              snapToPoint(targetIndex);
-            }
+      if (coveredBy === 'switch') {
+        sheetEngine.setPosition(screenSize + 100);
+      }
+    }, [screenSize, coveredBy, sheetEngine]);
 
-            // Reset flag after animation
-            setTimeout(() => {
-              canExpandFromScroll.current = true;
-            }, 500);
-          }
+    // Crossing an adaptive sheet's breakpoint while open moves the sheet into its new layout at
+    // once, back on the snap point it was on
+    const previousWideLayout = useRef(wideLayout);
+    useLayoutEffect(() => {
+      if (wideLayout === previousWideLayout.current) return;
+      previousWideLayout.current = wideLayout;
+
+      if (
+        !visibleRef.current ||
+        isClosing.current ||
+        isTransitioning.current ||
+        coveredBy === 'switch'
+      ) {
+        return;
+      }
+      sheetEngine.setPosition(snapPointsInPixels ? getSnapTranslateY(currentSnapIndex) : 0);
+    }, [
+      wideLayout,
+      coveredBy,
+      snapPointsInPixels,
+      currentSnapIndex,
+      sheetEngine,
+      getSnapTranslateY,
+    ]);
+
+    const handleContainerLayout = useCallback((e: LayoutChangeEvent) => {
+      setContainerWidth(e.nativeEvent.layout.width);
+    }, []);
+
+    // Measure the content to size auto-height sheets and 'content' snap points
+    const handleContentLayout = useCallback(
+      (e: LayoutChangeEvent) => {
+        if (isHorizontal) return;
+
+        const { y, height: layoutHeight } = e.nativeEvent.layout;
+        const nextContentHeight = y + layoutHeight + sheetTrailingSpace;
+        const nextSheetHeight = Math.min(
+          Math.max(nextContentHeight, minHeight),
+          effectiveMaxHeight
+        );
+
+        if (isAutoHeight && pendingSlideIn.current) {
+          // First measurement after open(): slide in from just past the screen edge,
+          // which completes the open transition
+          sheetEngine.setPosition(getHiddenPosition(nextSheetHeight));
+          pendingSlideIn.current();
+          pendingSlideIn.current = null;
+        } else if (
+          isAutoHeight &&
+          hasMeasured.current &&
+          visibleRef.current &&
+          !isClosing.current &&
+          !isDragging.current &&
+          !isTransitioning.current &&
+          nextSheetHeight !== contentSheetHeight
+        ) {
+          // The sheet is anchored to its edge, so a size change moves its free edge instantly
+          // (a centered dialog's top edge by half of it). Offset it by the delta to keep that
+          // edge in place, then settle to its resting position
+          const restingTranslateY = sheetEngine.getPosition();
+          const sizeDelta = nextSheetHeight - contentSheetHeight;
+          sheetEngine.setPosition(restingTranslateY + (isDialog ? sizeDelta / 2 : sizeDelta));
+          animatePosition(restingTranslateY, animationConfigs?.snap ?? DEFAULT_SNAP_ANIMATION);
         }
 
-        lastScrollY.current = currentScrollY;
+        hasMeasured.current = true;
+        // Content squeezed into the space above the keyboard does not show its natural height
+        if (keyboardSpace !== null && nextSheetHeight >= effectiveMaxHeight) return;
+        setMeasuredContentHeight(nextContentHeight);
       },
       [
-        enableScrollToExpand,
-        snapPointsInPixels,
-        currentSnapIndex,
-        scrollExpandThreshold,
-        snapToPoint,
-        close,
+        isHorizontal,
+        isDialog,
+        sheetTrailingSpace,
+        getHiddenPosition,
+        minHeight,
+        effectiveMaxHeight,
+        keyboardSpace,
+        isAutoHeight,
+        contentSheetHeight,
+        sheetEngine,
+        animatePosition,
+        animationConfigs?.snap,
       ]
     );
 
-    // Expose imperative methods through ref
-    useImperativeHandle(ref, () => ({
-      open,
-      close,
-      present: open,
-      dismiss: close,
-      snapToPoint,
-      handleScroll,
-      handleScrollBeginDrag,
-      handleScrollEndDrag,
-    }));
-
+    // Follow snap point updates (including a re-measured 'content' snap point) while open
+    const previousSnapPoints = useRef<{
+      points: SnapPoint[];
+      pixels: number[];
+      keyboardSpace: number | null;
+    } | null>(null);
     useEffect(() => {
-      if (!visible) {
-        translateY.setValue(screenHeight + 100);
-        backdropOpacityAnim.setValue(0);
-        // Reset measurement flag when sheet closes
-        hasMeasured.current = false;
-        setMeasuredContentHeight(0);
+      const previous = previousSnapPoints.current;
+      // The other dependencies are only read once the resolved snap points change
+      if (snapPointsInPixels === (previous?.pixels ?? null)) return;
+      previousSnapPoints.current =
+        snapPointsInPixels && stableSnapPoints
+          ? { points: stableSnapPoints, pixels: snapPointsInPixels, keyboardSpace }
+          : null;
+
+      if (!previous || !snapPointsInPixels || !stableSnapPoints) return;
+
+      // Stay on the same snap point if it still exists, otherwise move to the nearest one
+      const previousHeight = previous.pixels[currentSnapIndex] ?? 0;
+      let nextIndex = stableSnapPoints.indexOf(previous.points[currentSnapIndex]);
+      if (nextIndex === -1) {
+        nextIndex = snapPointsInPixels.reduce(
+          (nearest: number, pixels: number, i: number) =>
+            Math.abs(pixels - previousHeight) <
+            Math.abs(snapPointsInPixels[nearest] - previousHeight)
+              ? i
+              : nearest,
+          0
+        );
+      }
+
+      if (nextIndex !== currentSnapIndex) {
+        onAnimate?.(currentSnapIndex, nextIndex);
+        setCurrentSnapIndex(nextIndex);
+        onSnapPointChange?.(nextIndex);
+      }
+
+      if (!visibleRef.current || isClosing.current || isDragging.current) return;
+      // A sheet switched away for the one on top returns to its snap point when uncovered
+      if (coveredBy === 'switch') return;
+      // Resizing for the keyboard is animated along with the keyboard instead
+      if (keyboardSpace !== previous.keyboardSpace) return;
+
+      // The sheet is anchored to its edge and as large as its largest snap point, so a new
+      // largest snap point moves its free edge. Offset it to keep that edge in place, then animate
+      const sizeDelta = Math.max(...snapPointsInPixels) - Math.max(...previous.pixels);
+      if (sizeDelta !== 0) {
+        sheetEngine.setPosition(sheetEngine.getPosition() + sizeDelta);
+      }
+
+      const nextTranslateY = getSnapTranslateY(nextIndex);
+      animatePosition(
+        nextTranslateY,
+        animationConfigs?.snap ?? DEFAULT_SNAP_ANIMATION,
+        0,
+        finished => {
+          if (finished) {
+            settle(nextIndex, nextTranslateY);
+          }
+        }
+      );
+    }, [
+      snapPointsInPixels,
+      stableSnapPoints,
+      keyboardSpace,
+      currentSnapIndex,
+      coveredBy,
+      onAnimate,
+      onSnapPointChange,
+      sheetEngine,
+      getSnapTranslateY,
+      animatePosition,
+      animationConfigs?.snap,
+      settle,
+    ]);
+
+    // The backdrop opacity follows the sheet between the disappearing and appearing snap points
+    // Without snap points the sheet rests on a single index 0
+    const backdropFadeRange = React.useMemo(() => {
+      if (backdropDisappearsOnIndex < 0) return null;
+
+      const lastIndex = snapPointsInPixels ? snapPointsInPixels.length - 1 : 0;
+      // Even the top snap point is at or below backdropDisappearsOnIndex
+      if (backdropDisappearsOnIndex >= lastIndex) {
+        return HIDDEN_BACKDROP_RANGE;
       }
-    }, [visible, screenHeight]);
+
+      const shownAt = getSnapTranslateY(Math.min(backdropAppearsOnIndex, lastIndex));
+      const hiddenAt = getSnapTranslateY(Math.min(backdropDisappearsOnIndex, lastIndex));
+      return hiddenAt > shownAt ? { shownAt, hiddenAt } : null;
+    }, [snapPointsInPixels, backdropAppearsOnIndex, backdropDisappearsOnIndex, getSnapTranslateY]);
+    const backdropStyle = useBackdropStyle(sheetEngine, backdropFadeRange);
+
+    // A hidden backdrop, or one that ignores presses, lets touches through to the screen
+    const isBackdropInteractive =
+      backdropPressBehavior !== 'none' &&
+      (snapPointsInPixels ? currentSnapIndex : 0) > backdropDisappearsOnIndex;
+
+    const handleBackdropPress = useCallback(() => {
+      if (backdropPressBehavior === 'close') {
+        handleDismissPress('backdrop');
+      } else if (!isCovered && backdropPressBehavior !== 'none') {
+        snapToPoint(backdropPressBehavior === 'collapse' ? 0 : backdropPressBehavior);
+      }
+    }, [backdropPressBehavior, isCovered, handleDismissPress, snapToPoint]);
 
     // Compute sheet styles for cleaner code
     const sheetStyles = React.useMemo(() => {
+      const { edgeMargin, roundedCorners } = EDGE_LAYOUTS[direction];
+      const sizeStyle: ViewStyle = isHorizontal
+        ? { width: calculatedHeight, maxWidth: effectiveMaxHeight }
+        : {
+            ...(calculatedHeight !== undefined ? { height: calculatedHeight } : { minHeight }),
+            maxHeight: effectiveMaxHeight,
+          };
       const baseStyles: (ViewStyle | typeof styles.sheet)[] = [
         styles.sheet,
         {
-          ...(calculatedHeight !== undefined && {
-            height: calculatedHeight,
-          }),
-          maxHeight: effectiveMaxHeight,
+          ...sizeStyle,
+          [edgeMargin]: sheetEdgeOffset,
           backgroundColor,
-          borderTopLeftRadius: borderRadius,
-          borderTopRightRadius: borderRadius,
-          transform: [{ translateY: translateY }],
+          ...Object.fromEntries(roundedCorners.map(corner => [corner, borderRadius])),
         },
+        sheetEngine.sheetStyle,
       ];
 
+      if (detached && isHorizontal) {
+        baseStyles.push({
+          marginTop: safeTopInset + DETACHED_MARGIN,
+          marginBottom: safeBottomInset + DETACHED_MARGIN,
+          borderRadius,
+        });
+      } else if (detached) {
+        // Margins and a centered width don't combine in a flex layout, so the width is computed
+        baseStyles.push({
+          width:
+            containerWidth === null
+              ? 'auto'
+              : Math.min(containerWidth - DETACHED_MARGIN * 2, maxWidth ?? Infinity),
+          alignSelf: 'center',
+          marginHorizontal: containerWidth === null ? DETACHED_MARGIN : 0,
+          borderRadius,
+        });
+      } else if (maxWidth !== undefined && !isHorizontal) {
+        baseStyles.push({ maxWidth, alignSelf: 'center' });
+      }
+
       // Add container style if provided
       if (containerStyle) {
         baseStyles.push(containerStyle);
       }
 
+      // The insets are added to the padding, including a padding from containerStyle
+      baseStyles.push(sheetPadding);
+
       return baseStyles;
     }, [
+      direction,
+      isHorizontal,
       calculatedHeight,
+      minHeight,
       effectiveMaxHeight,
+      sheetEdgeOffset,
+      detached,
+      safeTopInset,
+      safeBottomInset,
+      containerWidth,
+      maxWidth,
+      sheetPadding,
       backgroundColor,
       borderRadius,
-      translateY,
+      sheetEngine,
       containerStyle,
     ]);
 
+    // Dialogs stay in place; the sheet on top of a stack is the only one to follow drags
+    const isDraggable = isDragEnabled && !isDialog;
+
+    // Bottom sheets show the handle above the content; top sheets below it, and side sheets
+    // along their free edge
+    const handleRow = (
+      <DragArea
+        engine={sheetEngine}
+        enabled={isDraggable && !isContentPanningEnabled}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        style={
+          isHorizontal
+            ? [styles.sideHandleContainer, direction === 'left' ? { right: 0 } : { left: 0 }]
+            : styles.handleContainer
+        }
+      >
+        {showHandle && (
+          <Pressable
+            onPress={handleHandlePress}
+            nativeID={handleNodeId}
+            role="button"
+            aria-label="Close bottom sheet"
+            style={({ pressed }) => [
+              isHorizontal ? styles.sideHandle : styles.handle,
+              {
+                backgroundColor: handleColor,
+                opacity: pressed ? 0.6 : 1,
+                cursor: Platform.OS === 'web' ? 'pointer' : undefined,
+              },
+            ]}
+          />
+        )}
+      </DragArea>
+    );
+
     // Create the modal content
     const modalContent = (
-      <View style={styles.container}>
+      <View
+        style={[
+          styles.container,
+          isDialog ? styles.dialogContainer : EDGE_LAYOUTS[direction].container,
+        ]}
+        pointerEvents="box-none"
+        onLayout={handleContainerLayout}
+      >
         <Pressable
-          onPress={close}
+          onPress={handleBackdropPress}
           role="button"
           aria-label={backdropAriaLabel}
           style={styles.backdrop}
+          pointerEvents={isBackdropInteractive ? 'auto' : 'none'}
         >
-          <Animated.View
-            style={[
-              styles.backdropAnimated,
-              {
-                opacity: backdropOpacityAnim,
-              },
-            ]}
-          />
+          {backdropComponent ? (
+            backdropComponent({
+              animatedPosition: sheetEngine.position,
+              style: [styles.backdrop, backdropStyle],
+            })
+          ) : (
+            <AnimatedView style={[styles.backdropAnimated, backdropStyle]} />
+          )}
         </Pressable>
 
-        <Animated.View
-          style={sheetStyles}
-          accessibilityRole={sheetAriaProps.role as any}
-          aria-label={ariaLabel}
-          aria-describedby={ariaDescribedBy}
-          aria-modal={sheetAriaProps['aria-modal'] ?? true}
-          aria-hidden={sheetAriaProps['aria-hidden'] ?? false}
+        <ContentDragArea
+          engine={sheetEngine}
+          enabled={isDraggable && isContentPanningEnabled}
+          activeOffset={activeOffsetY}
+          failOffset={failOffsetX}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
         >
-          <View
-            style={[
-              styles.handleContainer,
-              Platform.OS === 'web' && {
-                cursor: (isMouseDragging.current ? 'grabbing' : 'grab') as any,
-                // @ts-ignore: Web-specific style properties
-                userSelect: 'none',
-                WebkitUserSelect: 'none',
-              },
-            ]}
-            onTouchStart={handleTouchStart}
-            onTouchMove={handleTouchMove}
-            onTouchEnd={handleTouchEnd}
-            {...(Platform.OS === 'web'
-              ? {
-                  onMouseDown: handleMouseDown,
-                  onMouseMove: handleMouseMove,
-                  onMouseUp: handleMouseUp,
-                  onMouseLeave: handleMouseUp, // Handle mouse leaving the area
-                }
-              : {})}
+          <AnimatedView
+            style={sheetStyles}
+            nativeID={sheetNodeId}
+            accessibilityRole={sheetAriaProps.role as any}
+            aria-label={ariaLabel}
+            aria-describedby={ariaDescribedBy}
+            aria-modal={isModal}
+            aria-hidden={sheetAriaProps['aria-hidden'] ?? isCovered}
           >
-            {showHandle && (
-              <Pressable
-                onPress={close}
-                role="button"
-                aria-label="Close bottom sheet"
-                style={({ pressed }) => [
-                  styles.handle,
-                  {
-                    backgroundColor: handleColor,
-                    opacity: pressed ? 0.6 : 1,
-                    cursor: Platform.OS === 'web' ? 'pointer' : undefined,
-                  },
+            {direction === 'bottom' && handleRow}
+            <View style={styles.content} onLayout={handleContentLayout}>
+              <ModalSheetContext.Provider value={contextValue}>
+                {children}
+              </ModalSheetContext.Provider>
+            </View>
+            {direction !== 'bottom' && handleRow}
+            {/* Extends the sheet past the screen edge so size changes never reveal a gap */}
+            {!detached && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.sheetExtension,
+                  EDGE_LAYOUTS[direction].extension,
+                  { backgroundColor },
                 ]}
               />
             )}
-          </View>
-          <View style={styles.content}>{children}</View>
-        </Animated.View>
+          </AnimatedView>
+        </ContentDragArea>
       </View>
     );
 
-    return (
-      <Modal
-        animationType={'fade'}
-        transparent={true}
-        visible={visible}
-        onRequestClose={close}
-        statusBarTranslucent
-        aria-modal={true}
-        {...modalProps}
-      >
-        {enableDragAndDrop ? (
-          <GestureHandlerRootView style={{ flex: 1 }}>{modalContent}</GestureHandlerRootView>
-        ) : (
-          modalContent
-        )}
-      </Modal>
+    const sheetContent =
+      enableDragAndDrop || usesGestureHandler ? (
+        <GestureHandlerRootView style={{ flex: 1 }} pointerEvents="box-none">
+          {modalContent}
+        </GestureHandlerRootView>
+      ) : (
+        modalContent
+      );
+
+    if (presentation === 'modal') {
+      return (
+        <Modal
+          animationType={'fade'}
+          transparent={true}
+          visible={visible}
+          // react-native-web reports Escape here, which the sheet already handles with its guard
+          onRequestClose={Platform.OS === 'web' ? undefined : handleHardwareBack}
+          statusBarTranslucent
+          aria-modal={true}
+          {...modalProps}
+        >
+          {sheetContent}
+        </Modal>
+      );
+    }
+
+    if (!visible) return null;
+
+    // Without a Modal the sheet covers its host: the portal host or, inline, the parent view
+    const overlay = (
+      <View style={styles.overlay} pointerEvents="box-none">
+        {sheetContent}
+      </View>
     );
+
+    if (presentation === 'portal') {
+      const { Portal } = loadPortal();
+      return <Portal hostName={portalHostName}>{overlay}</Portal>;
+    }
+
+    return overlay;
   }
 );
 
 const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    overflow: 'hidden',
+  },
   container: {
     flex: 1,
     justifyContent: 'flex-end',
   },
+  dialogContainer: {
+    justifyContent: 'center',
+  },
   backdrop: {
     ...StyleSheet.absoluteFillObject,
   },
@@ -1148,18 +2528,39 @@ const styles = StyleSheet.create({
   },
   handleContainer: {
     alignItems: 'center',
-    paddingVertical: 12,
+    paddingVertical: HANDLE_ROW_PADDING,
     width: '100%',
     backgroundColor: 'transparent',
   },
   handle: {
     width: 40,
-    height: 4,
+    height: HANDLE_THICKNESS,
+    borderRadius: 2,
+  },
+  sideHandleContainer: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: HANDLE_ROW_PADDING * 2 + HANDLE_THICKNESS,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'transparent',
+  },
+  sideHandle: {
+    width: HANDLE_THICKNESS,
+    height: 40,
     borderRadius: 2,
   },
   content: {
     flexShrink: 1,
   },
+  sheetExtension: {
+    position: 'absolute',
+  },
 });
 
-export default ModalSheet;
+export default Object.assign(ModalSheet, {
+  ScrollView: ModalSheetScrollView,
+  FlatList: ModalSheetFlatList,
+  SectionList: ModalSheetSectionList,
+});
@@ -0,0 +1,53 @@
+import { useContext, useMemo } from 'react';
+import { Animated } from 'react-native';
+import type { SharedValue } from 'react-native-reanimated';
+import { ModalSheetContext } from './context';
+
+/**
+ * Animated values of the sheet around the calling component, in the library of its engine
+ * Check `engine` to narrow the values to Animated nodes or Reanimated SharedValues
+ */
+export type ModalSheetAnimation =
+  | {
+      engine: 'animated';
+      /** Sheet translateY from its fully expanded position */
+      animatedPosition: Animated.Value;
+      /** Fractional snap index: 0 at the first snap point, -1 once closed */
+      animatedIndex: Animated.AnimatedInterpolation<number>;
+    }
+  | {
+      engine: 'reanimated';
+      /** Sheet translateY from its fully expanded position */
+      animatedPosition: SharedValue<number>;
+      /** Fractional snap index: 0 at the first snap point, -1 once closed */
+      animatedIndex: SharedValue<number>;
+    };
+
+/**
+ * The position and fractional snap index of the enclosing ModalSheet, for animating content
+ * along with the sheet
+ * Components outside the sheet can pass animatedPosition / animatedIndex props instead
+ */
+export const useModalSheetAnimation = (): ModalSheetAnimation => {
+  const context = useContext(ModalSheetContext);
+  if (!context) {
+    throw new Error('ModalSheet: useModalSheetAnimation() must be used inside a ModalSheet.');
+  }
+
+  const { engine, animatedIndex } = context;
+  return useMemo<ModalSheetAnimation>(
+    () =>
+      engine.position instanceof Animated.Value
+        ? {
+            engine: 'animated',
+            animatedPosition: engine.position,
+            animatedIndex: animatedIndex as Animated.AnimatedInterpolation<number>,
+          }
+        : {
+            engine: 'reanimated',
+            animatedPosition: engine.position,
+            animatedIndex: animatedIndex as SharedValue<number>,
+          },
+    [engine, animatedIndex]
+  );
+};
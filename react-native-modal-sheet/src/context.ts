@@ -0,0 +1,40 @@
+import { createContext } from 'react';
+import type { Animated } from 'react-native';
+import type { SharedValue } from 'react-native-reanimated';
+import type { SheetEngine } from './engines/types';
+
+export interface ModalSheetContextValue {
+  engine: SheetEngine;
+  /** Fractional snap index of the sheet, derived from the engine position */
+  animatedIndex: Animated.AnimatedInterpolation<number> | SharedValue<number>;
+  /** Whether the sheet rests at its largest snap point (always true without snap points) */
+  expanded: boolean;
+  /** Whether nested scrollables hand the gesture over to the sheet */
+  scrollHandoff: boolean;
+  /** Whether the sheet can be dragged right now */
+  enabled: boolean;
+  onDragStart: () => void;
+  onDragEnd: (velocity: number) => void;
+  /** Registers a nested scrollable by its instance getter, returning its unregister function */
+  registerScrollable: (getInstance: () => any) => () => void;
+}
+
+/**
+ * Gives nested ModalSheet scrollables access to their parent sheet
+ */
+export const ModalSheetContext = createContext<ModalSheetContextValue | null>(null);
+
+/**
+ * Access to a sheet presented through useModalSheet() or SheetManager from inside its content
+ */
+export interface ModalSheetInstance {
+  id: string;
+  /** Current snap point index of the sheet */
+  snapIndex: number;
+  /** Close the sheet, resolving its handle with the result */
+  hide: (result?: unknown) => void;
+  /** Resolves with whether the snap animation completed */
+  snapToPoint: (index: number) => Promise<boolean>;
+}
+
+export const ModalSheetInstanceContext = createContext<ModalSheetInstance | null>(null);
@@ -0,0 +1,701 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Animated,
+  Easing,
+  FlatList,
+  GestureResponderEvent,
+  KeyboardEventEasing,
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  PanResponder,
+  Platform,
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  View,
+} from 'react-native';
+import type {
+  AnimatedNumber,
+  BackdropFadeRange,
+  SheetAnimationTargets,
+  SheetContentDragAreaProps,
+  SheetDirection,
+  SheetDragAreaProps,
+  SheetEngine,
+  SheetEngineHooks,
+  SheetScrollableProps,
+  SheetScrollableType,
+  SnapIndexRange,
+} from './types';
+
+const SNAP_EASING = Easing.bezier(0.25, 0.1, 0.25, 1);
+
+// Curves reported by keyboard events, 'keyboard' being an approximation of the iOS keyboard
+const KEYBOARD_EASINGS: Record<KeyboardEventEasing, (value: number) => number> = {
+  keyboard: Easing.bezier(0.17, 0.59, 0.4, 0.77),
+  easeIn: Easing.in(Easing.ease),
+  easeOut: Easing.out(Easing.ease),
+  easeInEaseOut: Easing.inOut(Easing.ease),
+  linear: Easing.linear,
+};
+
+// Scale of a sheet while another sheet is pushed on top of it
+const COVERED_SCALE = 0.92;
+
+// Only the most recent move samples describe the velocity at release
+const VELOCITY_SAMPLE_WINDOW = 100;
+
+type DragSample = { y: number; time: number };
+
+// Coordinate along the sheet's axis, growing towards the edge the sheet is anchored to
+const alongAxis = (direction: SheetDirection, x: number, y: number): number => {
+  switch (direction) {
+    case 'top':
+      return -y;
+    case 'left':
+      return -x;
+    case 'right':
+      return x;
+    default:
+      return y;
+  }
+};
+
+// Coordinate across the sheet's axis
+const acrossAxis = (direction: SheetDirection, x: number, y: number): number =>
+  direction === 'left' || direction === 'right' ? y : x;
+
+// Velocity (px/ms) over the samples recorded within the window before `now`
+const getReleaseVelocity = (samples: DragSample[], now: number): number => {
+  const recent = samples.filter(sample => now - sample.time <= VELOCITY_SAMPLE_WINDOW);
+  if (recent.length < 2) return 0;
+
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const elapsed = last.time - first.time;
+  return elapsed > 0 ? (last.y - first.y) / elapsed : 0;
+};
+
+// Drag area driven by JS touch events (and mouse events on web)
+const AnimatedDragArea = ({
+  engine,
+  enabled,
+  onDragStart,
+  onDragEnd,
+  style,
+  children,
+}: SheetDragAreaProps) => {
+  const touchStart = useRef(0);
+  const touchStartPosition = useRef(0);
+  const dragSamples = useRef<DragSample[]>([]);
+  const isDragging = useRef(false);
+  const isMouseDragging = useRef(false);
+
+  // Start a drag (touch or mouse) at a coordinate along the sheet's axis
+  const beginDrag = useCallback(
+    (coordinate: number) => {
+      touchStart.current = coordinate;
+      touchStartPosition.current = engine.getPosition();
+      dragSamples.current = [{ y: coordinate, time: Date.now() }];
+      onDragStart();
+    },
+    [engine, onDragStart]
+  );
+
+  // Follow the finger and track its velocity
+  const moveDrag = useCallback(
+    (coordinate: number) => {
+      const now = Date.now();
+      dragSamples.current = dragSamples.current
+        .filter(sample => now - sample.time <= VELOCITY_SAMPLE_WINDOW)
+        .concat({ y: coordinate, time: now });
+
+      const delta = coordinate - touchStart.current;
+
+      // Never allow dragging past the fully expanded position
+      // Movement towards the edge is always allowed so the sheet can collapse from any snap point
+      engine.setPosition(Math.max(touchStartPosition.current + delta, 0));
+    },
+    [engine]
+  );
+
+  // A finger that rested before lifting leaves no recent samples, so there is no fling
+  const endDrag = useCallback(
+    (coordinate: number) => {
+      const now = Date.now();
+      const velocity = getReleaseVelocity(
+        dragSamples.current.concat({ y: coordinate, time: now }),
+        now
+      );
+      dragSamples.current = [];
+      onDragEnd(velocity);
+    },
+    [onDragEnd]
+  );
+
+  const getTouchCoordinate = useCallback(
+    (e: GestureResponderEvent) =>
+      alongAxis(engine.direction, e.nativeEvent.pageX, e.nativeEvent.pageY),
+    [engine]
+  );
+
+  const getMouseCoordinate = useCallback(
+    (e: any) => alongAxis(engine.direction, e.pageX || e.clientX, e.pageY || e.clientY),
+    [engine]
+  );
+
+  const handleTouchStart = useCallback(
+    (e: GestureResponderEvent) => {
+      // Prevent touch interactions during animation
+      if (!enabled) return;
+
+      isDragging.current = true;
+      beginDrag(getTouchCoordinate(e));
+    },
+    [enabled, beginDrag, getTouchCoordinate]
+  );
+
+  const handleTouchMove = useCallback(
+    (e: GestureResponderEvent) => {
+      if (!isDragging.current) return;
+
+      moveDrag(getTouchCoordinate(e));
+    },
+    [moveDrag, getTouchCoordinate]
+  );
+
+  const handleTouchEnd = useCallback(
+    (e: GestureResponderEvent) => {
+      if (!isDragging.current) return;
+      isDragging.current = false;
+
+      endDrag(getTouchCoordinate(e));
+    },
+    [endDrag, getTouchCoordinate]
+  );
+
+  // Handle mouse events for web platform
+  const handleMouseDown = useCallback(
+    (e: any) => {
+      // Prevent default to avoid text selection during drag
+      e.preventDefault?.();
+
+      if (!enabled) return;
+
+      isMouseDragging.current = true;
+      beginDrag(getMouseCoordinate(e));
+    },
+    [enabled, beginDrag, getMouseCoordinate]
+  );
+
+  const handleMouseMove = useCallback(
+    (e: any) => {
+      if (!isMouseDragging.current) return;
+
+      moveDrag(getMouseCoordinate(e));
+    },
+    [moveDrag, getMouseCoordinate]
+  );
+
+  const handleMouseUp = useCallback(
+    (e: any) => {
+      if (!isMouseDragging.current) return;
+      isMouseDragging.current = false;
+
+      endDrag(getMouseCoordinate(e));
+    },
+    [endDrag, getMouseCoordinate]
+  );
+
+  // Add global mouse event listeners for web platform
+  useEffect(() => {
+    // Only set up listeners on web platform
+    if (
+      Platform.OS === 'web' &&
+      typeof globalThis !== 'undefined' &&
+      (globalThis as any).document
+    ) {
+      const handleGlobalMouseUp = (e: MouseEvent) => {
+        if (isMouseDragging.current) {
+          handleMouseUp(e);
+        }
+      };
+
+      const handleGlobalMouseMove = (e: MouseEvent) => {
+        if (isMouseDragging.current) {
+          handleMouseMove(e);
+        }
+      };
+
+      const doc = (globalThis as any).document;
+      doc.addEventListener('mouseup', handleGlobalMouseUp);
+      doc.addEventListener('mousemove', handleGlobalMouseMove);
+
+      return () => {
+        doc.removeEventListener('mouseup', handleGlobalMouseUp);
+        doc.removeEventListener('mousemove', handleGlobalMouseMove);
+      };
+    }
+
+    // Return undefined for all other cases
+    return undefined;
+  }, [handleMouseUp, handleMouseMove]);
+
+  return (
+    <View
+      style={[
+        style,
+        Platform.OS === 'web' && {
+          cursor: (isMouseDragging.current ? 'grabbing' : 'grab') as any,
+          // @ts-ignore: Web-specific style properties
+          userSelect: 'none',
+          WebkitUserSelect: 'none',
+        },
+      ]}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      {...(Platform.OS === 'web'
+        ? {
+            onMouseDown: handleMouseDown,
+            onMouseMove: handleMouseMove,
+            onMouseUp: handleMouseUp,
+            onMouseLeave: handleMouseUp, // Handle mouse leaving the area
+          }
+        : {})}
+    >
+      {children}
+    </View>
+  );
+};
+
+// Drag area covering the whole sheet, built on the responder system
+// Claiming in the bubble phase lets nested components that refuse termination (text inputs
+// on iOS, scroll views that are already scrolling) keep their touches, while Pressables
+// are cancelled once the sheet takes over
+const AnimatedContentDragArea = ({
+  engine,
+  enabled,
+  activeOffset,
+  failOffset,
+  onDragStart,
+  onDragEnd,
+  children,
+}: SheetContentDragAreaProps) => {
+  const { direction } = engine;
+  const touchStartPosition = useRef(0);
+  const grantOffset = useRef(0);
+  // A touch that moved across the sheet's axis first belongs to the content for its whole duration
+  const hasFailed = useRef(false);
+
+  // The responder is created once, so it reads the latest props through a ref
+  const latestProps = useRef({ enabled, activeOffset, failOffset, onDragStart, onDragEnd });
+  latestProps.current = { enabled, activeOffset, failOffset, onDragStart, onDragEnd };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponderCapture: () => {
+          hasFailed.current = false;
+          return false;
+        },
+        onMoveShouldSetPanResponder: (_, { dx, dy }) => {
+          const props = latestProps.current;
+          if (!props.enabled || hasFailed.current) return false;
+
+          if (Math.abs(acrossAxis(direction, dx, dy)) > props.failOffset) {
+            hasFailed.current = true;
+            return false;
+          }
+
+          return Math.abs(alongAxis(direction, dx, dy)) > props.activeOffset;
+        },
+        onPanResponderGrant: (_, { dx, dy }) => {
+          touchStartPosition.current = engine.getPosition();
+          // Start following from the grant so the activation distance doesn't make the sheet jump
+          grantOffset.current = alongAxis(direction, dx, dy);
+          latestProps.current.onDragStart();
+        },
+        onPanResponderMove: (_, { dx, dy }) => {
+          // Never allow dragging past the fully expanded position
+          engine.setPosition(
+            Math.max(
+              touchStartPosition.current + alongAxis(direction, dx, dy) - grantOffset.current,
+              0
+            )
+          );
+        },
+        // Once the sheet follows the finger it keeps the touch until release
+        onPanResponderTerminationRequest: () => false,
+        // PanResponder reports velocity in px/ms, like the sheet
+        onPanResponderRelease: (_, { vx, vy }) =>
+          latestProps.current.onDragEnd(alongAxis(direction, vx, vy)),
+        onPanResponderTerminate: (_, { vx, vy }) =>
+          latestProps.current.onDragEnd(alongAxis(direction, vx, vy)),
+      }),
+    [engine, direction]
+  );
+
+  return React.cloneElement(children, panResponder.panHandlers);
+};
+
+const SCROLLABLES: Record<SheetScrollableType, React.ComponentType<any>> = {
+  ScrollView,
+  FlatList,
+  SectionList,
+};
+
+// Scroll to an offset without animation; lists expose scrollTo through their scroll responder
+const scrollToOffset = (scrollable: any, y: number) => {
+  if (typeof scrollable?.scrollTo === 'function') {
+    scrollable.scrollTo({ y, animated: false });
+  } else {
+    scrollable?.getScrollResponder?.()?.scrollTo({ y, animated: false });
+  }
+};
+
+// Scrollable that shares touches with the sheet using JS touch events
+// Native scrolling is disabled while the sheet owns the touch; movement past the fully
+// expanded position is applied to the content with scrollTo so the touch never breaks
+const AnimatedScrollable = ({
+  engine,
+  type,
+  expanded,
+  enabled,
+  onDragStart,
+  onDragEnd,
+  scrollableProps,
+  onScrollableRef,
+}: SheetScrollableProps) => {
+  const Scrollable = SCROLLABLES[type];
+  const scrollableInstance = useRef<any>(null);
+  const [isSheetDragging, setIsSheetDragging] = useState(false);
+
+  const scrollY = useRef(0);
+  const contentHeight = useRef(0);
+  const layoutHeight = useRef(0);
+
+  const lastPageY = useRef<number | null>(null);
+  const ownsTouch = useRef(false);
+  const didDragSheet = useRef(false);
+  const dragSamples = useRef<DragSample[]>([]);
+
+  const handleRef = useCallback(
+    (instance: any) => {
+      scrollableInstance.current = instance;
+      onScrollableRef(instance);
+    },
+    [onScrollableRef]
+  );
+
+  const scrollContentTo = useCallback((y: number) => {
+    const maxScrollY = Math.max(contentHeight.current - layoutHeight.current, 0);
+    scrollY.current = Math.min(Math.max(y, 0), maxScrollY);
+    scrollToOffset(scrollableInstance.current, scrollY.current);
+  }, []);
+
+  const handleTouchStart = useCallback(
+    (e: GestureResponderEvent) => {
+      lastPageY.current = e.nativeEvent.pageY;
+      dragSamples.current = [{ y: e.nativeEvent.pageY, time: Date.now() }];
+      didDragSheet.current = false;
+      // Until the sheet is fully expanded every touch on the content moves the sheet
+      ownsTouch.current = engine.getPosition() > 0;
+    },
+    [engine]
+  );
+
+  const handleTouchMove = useCallback(
+    (e: GestureResponderEvent) => {
+      if (lastPageY.current === null || !enabled) return;
+
+      const { pageY } = e.nativeEvent;
+      const deltaY = pageY - lastPageY.current;
+      lastPageY.current = pageY;
+
+      const now = Date.now();
+      dragSamples.current = dragSamples.current
+        .filter(sample => now - sample.time <= VELOCITY_SAMPLE_WINDOW)
+        .concat({ y: pageY, time: now });
+
+      if (!ownsTouch.current) {
+        // Pulling down with the content at its top hands the touch to the sheet
+        if (deltaY <= 0 || scrollY.current > 0) return;
+        ownsTouch.current = true;
+      }
+
+      if (!didDragSheet.current) {
+        didDragSheet.current = true;
+        setIsSheetDragging(true);
+        onDragStart();
+      }
+
+      const position = engine.getPosition();
+      if (deltaY < 0 && position + deltaY < 0) {
+        // Fully expanded: the rest of the movement scrolls the content
+        engine.setPosition(0);
+        scrollContentTo(scrollY.current - (position + deltaY));
+      } else if (deltaY > 0 && scrollY.current > 0) {
+        // Scroll the content back to its top before moving the sheet down again
+        const scrollBack = Math.min(deltaY, scrollY.current);
+        scrollContentTo(scrollY.current - scrollBack);
+        engine.setPosition(position + deltaY - scrollBack);
+      } else {
+        engine.setPosition(Math.max(position + deltaY, 0));
+      }
+    },
+    [enabled, engine, onDragStart, scrollContentTo]
+  );
+
+  const handleTouchEnd = useCallback(
+    (e: GestureResponderEvent) => {
+      if (lastPageY.current === null) return;
+      lastPageY.current = null;
+      ownsTouch.current = false;
+
+      if (!didDragSheet.current) return;
+      didDragSheet.current = false;
+      setIsSheetDragging(false);
+
+      const now = Date.now();
+      const velocity = getReleaseVelocity(
+        dragSamples.current.concat({ y: e.nativeEvent.pageY, time: now }),
+        now
+      );
+      dragSamples.current = [];
+      onDragEnd(velocity);
+    },
+    [onDragEnd]
+  );
+
+  const { onScroll, onContentSizeChange, onLayout, scrollEnabled = true } = scrollableProps;
+
+  const handleScroll = useCallback(
+    (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+      scrollY.current = e.nativeEvent.contentOffset.y;
+      onScroll?.(e);
+    },
+    [onScroll]
+  );
+
+  const handleContentSizeChange = useCallback(
+    (width: number, height: number) => {
+      contentHeight.current = height;
+      onContentSizeChange?.(width, height);
+    },
+    [onContentSizeChange]
+  );
+
+  const handleLayout = useCallback(
+    (e: LayoutChangeEvent) => {
+      layoutHeight.current = e.nativeEvent.layout.height;
+      onLayout?.(e);
+    },
+    [onLayout]
+  );
+
+  return (
+    <View
+      style={styles.scrollableContainer}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      <Scrollable
+        bounces={false}
+        overScrollMode="never"
+        scrollEventThrottle={16}
+        {...scrollableProps}
+        ref={handleRef}
+        scrollEnabled={scrollEnabled && expanded && !isSheetDragging}
+        onScroll={handleScroll}
+        onContentSizeChange={handleContentSizeChange}
+        onLayout={handleLayout}
+      />
+    </View>
+  );
+};
+
+// Fractional snap index at a position, matching the engine's clamped interpolation
+const getSnapIndex = (position: number, { positions, indexes }: SnapIndexRange): number => {
+  if (position <= positions[0]) return indexes[0];
+  for (let i = 1; i < positions.length; i++) {
+    if (position <= positions[i]) {
+      const progress = (position - positions[i - 1]) / (positions[i] - positions[i - 1]);
+      return indexes[i - 1] + (indexes[i] - indexes[i - 1]) * progress;
+    }
+  }
+  return indexes[indexes.length - 1];
+};
+
+const setAnimatedNumber = (target: AnimatedNumber, value: number) => {
+  if (target instanceof Animated.Value) {
+    target.setValue(value);
+  } else {
+    target.value = value;
+  }
+};
+
+// Transform moving a sheet anchored to `direction` by `position` towards its edge
+const getDirectionTranslate = (
+  direction: SheetDirection,
+  position: Animated.Value
+): { translateX: Animated.AnimatedNode } | { translateY: Animated.AnimatedNode } => {
+  const offset =
+    direction === 'top' || direction === 'left' ? Animated.multiply(position, -1) : position;
+  return direction === 'left' || direction === 'right'
+    ? { translateX: offset }
+    : { translateY: offset };
+};
+
+/**
+ * Engine built on React Native's Animated API
+ * Drags run on the JS thread; every animation uses the native driver
+ */
+const useAnimatedEngine = (direction: SheetDirection): SheetEngine => {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const backdropOpacity = useRef(new Animated.Value(0)).current;
+  const cover = useRef(new Animated.Value(0)).current;
+
+  return useMemo<SheetEngine>(
+    () => ({
+      position: translateY,
+      backdropOpacity,
+      direction,
+      AnimatedView: Animated.View,
+      DragArea: AnimatedDragArea,
+      ContentDragArea: AnimatedContentDragArea,
+      Scrollable: AnimatedScrollable,
+      sheetStyle: {
+        transform: [
+          getDirectionTranslate(direction, translateY),
+          { scale: cover.interpolate({ inputRange: [0, 1], outputRange: [1, COVERED_SCALE] }) },
+        ],
+      },
+      easeOut: Easing.out(Easing.cubic),
+      keyboardEasing: easing => KEYBOARD_EASINGS[easing] ?? KEYBOARD_EASINGS.keyboard,
+      getPosition: () => (translateY as any)._value || 0,
+      setPosition: value => translateY.setValue(value),
+      animatePosition: (toValue, config, velocity = 0, onEnd) => {
+        const animation =
+          config.type === 'spring'
+            ? Animated.spring(translateY, {
+                toValue,
+                // Drag velocity is tracked in px/ms while springs expect px/s
+                velocity: velocity * 1000,
+                damping: config.damping,
+                stiffness: config.stiffness,
+                mass: config.mass,
+                overshootClamping: config.overshootClamping,
+                restDisplacementThreshold: 0.5,
+                restSpeedThreshold: 0.5,
+                useNativeDriver: true,
+              })
+            : Animated.timing(translateY, {
+                toValue,
+                duration: config.duration,
+                easing: config.easing ?? SNAP_EASING,
+                useNativeDriver: true,
+              });
+
+        animation.start(({ finished }) => onEnd?.(finished));
+      },
+      setBackdropOpacity: value => backdropOpacity.setValue(value),
+      animateBackdropOpacity: (toValue, duration, onEnd) => {
+        Animated.timing(backdropOpacity, {
+          toValue,
+          duration,
+          useNativeDriver: true,
+        }).start(({ finished }) => onEnd?.(finished));
+      },
+      animateCover: (toValue, duration) => {
+        Animated.timing(cover, {
+          toValue,
+          duration,
+          easing: SNAP_EASING,
+          useNativeDriver: true,
+        }).start();
+      },
+      stopAnimations: () => {
+        translateY.stopAnimation();
+        backdropOpacity.stopAnimation();
+      },
+    }),
+    [translateY, direction, backdropOpacity, cover]
+  );
+};
+
+// Backdrop style, fading with the sheet position across fadeRange when there is one
+const useAnimatedBackdropStyle = (engine: SheetEngine, fadeRange: BackdropFadeRange | null) => {
+  const translateY = engine.position as Animated.Value;
+  const backdropOpacity = engine.backdropOpacity as Animated.Value;
+
+  return useMemo(
+    () => ({
+      opacity: fadeRange
+        ? Animated.multiply(
+            backdropOpacity,
+            translateY.interpolate({
+              inputRange: [fadeRange.shownAt, fadeRange.hiddenAt],
+              outputRange: [1, 0],
+              extrapolate: 'clamp',
+            })
+          )
+        : backdropOpacity,
+    }),
+    [translateY, backdropOpacity, fadeRange]
+  );
+};
+
+// Fractional snap index interpolated from the sheet position
+const useAnimatedSnapIndex = (engine: SheetEngine, indexRange: SnapIndexRange) => {
+  const translateY = engine.position as Animated.Value;
+
+  return useMemo(
+    () =>
+      translateY.interpolate({
+        inputRange: indexRange.positions,
+        outputRange: indexRange.indexes,
+        extrapolate: 'clamp',
+      }),
+    [translateY, indexRange]
+  );
+};
+
+// Keep consumer-owned values in sync with the sheet position
+// Listeners also receive the values of native driven animations
+const useAnimatedTargets = (
+  engine: SheetEngine,
+  { position, index }: SheetAnimationTargets,
+  indexRange: SnapIndexRange
+) => {
+  const translateY = engine.position as Animated.Value;
+
+  useEffect(() => {
+    if (!position && !index) return;
+
+    const sync = (value: number) => {
+      if (position) setAnimatedNumber(position, value);
+      if (index) setAnimatedNumber(index, getSnapIndex(value, indexRange));
+    };
+    sync((translateY as any)._value || 0);
+
+    const listenerId = translateY.addListener(({ value }) => sync(value));
+    return () => translateY.removeListener(listenerId);
+  }, [translateY, position, index, indexRange]);
+};
+
+export const animatedEngineHooks: SheetEngineHooks = {
+  useEngine: useAnimatedEngine,
+  useBackdropStyle: useAnimatedBackdropStyle,
+  useAnimatedIndex: useAnimatedSnapIndex,
+  useAnimationTargets: useAnimatedTargets,
+};
+
+const styles = StyleSheet.create({
+  scrollableContainer: {
+    flexShrink: 1,
+  },
+});
@@ -0,0 +1,508 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  Animated as RNAnimated,
+  KeyboardEventEasing,
+  SectionList,
+  StyleSheet,
+  View,
+} from 'react-native';
+import type { SharedValue } from 'react-native-reanimated';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import type {
+  BackdropFadeRange,
+  SheetAnimationTargets,
+  SheetContentDragAreaProps,
+  SheetDirection,
+  SheetDragAreaProps,
+  SheetEngine,
+  SheetEngineHooks,
+  SheetScrollableProps,
+  SheetScrollableType,
+  SnapIndexRange,
+} from './types';
+
+// react-native-reanimated is an optional dependency: bundlers only tolerate it missing when it is
+// required directly inside a try, so it can't be imported
+let reanimated: typeof import('react-native-reanimated');
+try {
+  reanimated = require('react-native-reanimated');
+} catch {
+  throw new Error(
+    'ModalSheet: engine="reanimated" and SharedValue snap points require react-native-reanimated to be installed.'
+  );
+}
+
+const {
+  default: Animated,
+  Easing,
+  Extrapolation,
+  cancelAnimation,
+  interpolate,
+  isSharedValue,
+  runOnJS,
+  scrollTo,
+  useAnimatedReaction,
+  useAnimatedRef,
+  useAnimatedScrollHandler,
+  useAnimatedStyle,
+  useDerivedValue,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} = reanimated;
+
+const SNAP_EASING = Easing.bezier(0.25, 0.1, 0.25, 1);
+
+// Curves reported by keyboard events, 'keyboard' being an approximation of the iOS keyboard
+const KEYBOARD_EASINGS: Record<KeyboardEventEasing, (value: number) => number> = {
+  keyboard: Easing.bezierFn(0.17, 0.59, 0.4, 0.77),
+  easeIn: Easing.in(Easing.ease),
+  easeOut: Easing.out(Easing.ease),
+  easeInEaseOut: Easing.inOut(Easing.ease),
+  linear: Easing.linear,
+};
+
+// Scale of a sheet while another sheet is pushed on top of it
+const COVERED_SCALE = 0.92;
+
+// Whether the sheet moves along the x axis, and whether its position grows against the axis
+const getDirectionAxis = (direction: SheetDirection) => ({
+  isHorizontal: direction === 'left' || direction === 'right',
+  sign: direction === 'top' || direction === 'left' ? -1 : 1,
+});
+
+// Pan gesture that moves the sheet with the finger in a worklet, reporting only the release to JS
+const useSheetPanGesture = ({
+  engine,
+  enabled,
+  onDragStart,
+  onDragEnd,
+  activeOffset,
+  failOffset,
+}: Pick<SheetDragAreaProps, 'engine' | 'enabled' | 'onDragStart' | 'onDragEnd'> & {
+  activeOffset?: number;
+  failOffset?: number;
+}) => {
+  const position = engine.position as SharedValue<number>;
+  const { direction } = engine;
+  const startPosition = useSharedValue(0);
+
+  return useMemo(() => {
+    const { isHorizontal, sign } = getDirectionAxis(direction);
+
+    let gesture = Gesture.Pan().enabled(enabled);
+    if (activeOffset !== undefined) {
+      const range: [number, number] = [-activeOffset, activeOffset];
+      gesture = isHorizontal ? gesture.activeOffsetX(range) : gesture.activeOffsetY(range);
+    }
+    if (failOffset !== undefined) {
+      const range: [number, number] = [-failOffset, failOffset];
+      gesture = isHorizontal ? gesture.failOffsetY(range) : gesture.failOffsetX(range);
+    }
+
+    return gesture
+      .onStart(() => {
+        'worklet';
+        cancelAnimation(position);
+        startPosition.value = position.value;
+        runOnJS(onDragStart)();
+      })
+      .onUpdate(e => {
+        'worklet';
+        const translation = sign * (isHorizontal ? e.translationX : e.translationY);
+        // Never allow dragging past the fully expanded position
+        position.value = Math.max(startPosition.value + translation, 0);
+      })
+      .onEnd(e => {
+        'worklet';
+        const velocity = sign * (isHorizontal ? e.velocityX : e.velocityY);
+        // Gesture Handler reports px/s, the sheet works in px/ms
+        runOnJS(onDragEnd)(velocity / 1000);
+      });
+  }, [
+    direction,
+    enabled,
+    activeOffset,
+    failOffset,
+    onDragStart,
+    onDragEnd,
+    position,
+    startPosition,
+  ]);
+};
+
+// Drag area driven by a Gesture Handler pan gesture
+const ReanimatedDragArea = ({
+  engine,
+  enabled,
+  onDragStart,
+  onDragEnd,
+  style,
+  children,
+}: SheetDragAreaProps) => {
+  const gesture = useSheetPanGesture({ engine, enabled, onDragStart, onDragEnd });
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View style={style}>{children}</View>
+    </GestureDetector>
+  );
+};
+
+// Drag area covering the whole sheet; activation offsets keep taps and swipes across the
+// sheet's axis with the content, and activating cancels the touches of nested Pressables
+const ReanimatedContentDragArea = ({
+  engine,
+  enabled,
+  activeOffset,
+  failOffset,
+  onDragStart,
+  onDragEnd,
+  children,
+}: SheetContentDragAreaProps) => {
+  const gesture = useSheetPanGesture({
+    engine,
+    enabled,
+    onDragStart,
+    onDragEnd,
+    activeOffset,
+    failOffset,
+  });
+
+  return <GestureDetector gesture={gesture}>{children}</GestureDetector>;
+};
+
+const SCROLLABLES: Record<SheetScrollableType, React.ComponentType<any>> = {
+  ScrollView: Animated.ScrollView,
+  FlatList: Animated.FlatList,
+  SectionList: Animated.createAnimatedComponent(SectionList),
+};
+
+// Scrollable whose native scroll gesture runs alongside a pan gesture that moves the sheet
+// While the sheet owns the gesture, the content is held in place on the UI thread
+const ReanimatedScrollable = ({
+  engine,
+  type,
+  expanded,
+  enabled,
+  onDragStart,
+  onDragEnd,
+  scrollableProps,
+  onScrollableRef,
+}: SheetScrollableProps) => {
+  const Scrollable = SCROLLABLES[type];
+  const position = engine.position as SharedValue<number>;
+  const scrollableRef = useAnimatedRef<any>();
+
+  const scrollY = useSharedValue(0);
+  const lockedScrollY = useSharedValue(0);
+  const ownsGesture = useSharedValue(false);
+  const didDragSheet = useSharedValue(false);
+  const lastTranslationY = useSharedValue(0);
+
+  const { onScroll, ...restProps } = scrollableProps;
+
+  const handleRef = useCallback(
+    (instance: any) => {
+      scrollableRef(instance);
+      onScrollableRef(instance);
+    },
+    [scrollableRef, onScrollableRef]
+  );
+
+  const scrollHandler = useAnimatedScrollHandler(
+    {
+      onScroll: e => {
+        if (ownsGesture.value) {
+          scrollTo(scrollableRef, 0, lockedScrollY.value, false);
+          return;
+        }
+
+        scrollY.value = e.contentOffset.y;
+        if (onScroll) {
+          runOnJS(onScroll)({ nativeEvent: e });
+        }
+      },
+    },
+    [onScroll]
+  );
+
+  const nativeGesture = useMemo(() => Gesture.Native(), []);
+
+  const panGesture = useMemo(
+    () =>
+      Gesture.Pan()
+        .enabled(enabled)
+        .simultaneousWithExternalGesture(nativeGesture)
+        .onStart(() => {
+          'worklet';
+          lastTranslationY.value = 0;
+          didDragSheet.value = false;
+          lockedScrollY.value = scrollY.value;
+          // Until the sheet is fully expanded every touch on the content moves the sheet
+          ownsGesture.value = !expanded || position.value > 0;
+        })
+        .onUpdate(e => {
+          'worklet';
+          const deltaY = e.translationY - lastTranslationY.value;
+          lastTranslationY.value = e.translationY;
+
+          if (!ownsGesture.value) {
+            // Pulling down with the content at its top hands the gesture to the sheet
+            if (deltaY <= 0 || scrollY.value > 0) return;
+            ownsGesture.value = true;
+            lockedScrollY.value = 0;
+          }
+
+          if (!didDragSheet.value) {
+            didDragSheet.value = true;
+            cancelAnimation(position);
+            runOnJS(onDragStart)();
+          }
+
+          const nextPosition = position.value + deltaY;
+          if (nextPosition <= 0 && deltaY < 0) {
+            // Fully expanded: release the content so its scroll takes the rest of the gesture
+            position.value = 0;
+            ownsGesture.value = false;
+          } else {
+            position.value = Math.max(nextPosition, 0);
+          }
+        })
+        .onEnd(e => {
+          'worklet';
+          if (didDragSheet.value) {
+            // Gesture Handler reports px/s, the sheet works in px/ms
+            runOnJS(onDragEnd)(e.velocityY / 1000);
+          }
+        })
+        .onFinalize(() => {
+          'worklet';
+          ownsGesture.value = false;
+          didDragSheet.value = false;
+        }),
+    [
+      enabled,
+      expanded,
+      nativeGesture,
+      onDragStart,
+      onDragEnd,
+      position,
+      scrollY,
+      lockedScrollY,
+      ownsGesture,
+      didDragSheet,
+      lastTranslationY,
+    ]
+  );
+
+  return (
+    <GestureDetector gesture={panGesture}>
+      <View style={styles.scrollableContainer}>
+        <GestureDetector gesture={nativeGesture}>
+          <Scrollable
+            bounces={false}
+            overScrollMode="never"
+            scrollEventThrottle={16}
+            {...restProps}
+            ref={handleRef}
+            onScroll={scrollHandler}
+          />
+        </GestureDetector>
+      </View>
+    </GestureDetector>
+  );
+};
+
+/**
+ * Mirror a shared value into React state
+ * Re-renders whenever the value is replaced, whether from the JS or the UI thread. A plain
+ * value, which a prop may become after mount, is returned as it is
+ */
+export const useSharedValueState = <T,>(source: T | SharedValue<T> | undefined): T | undefined => {
+  const sharedValue = isSharedValue<T>(source) ? source : null;
+  const [value, setValue] = useState(() => sharedValue?.value);
+
+  useAnimatedReaction(
+    () => sharedValue?.value,
+    (next, previous) => {
+      if (next !== previous) {
+        runOnJS(setValue)(next);
+      }
+    },
+    [sharedValue]
+  );
+
+  return isSharedValue<T>(source) ? value : source;
+};
+
+// Keep consumer-owned values in sync with the sheet position
+// Shared values are written on the UI thread, Animated values through the JS thread
+const useReanimatedTargets = (
+  engine: SheetEngine,
+  { position, index }: SheetAnimationTargets,
+  indexRange: SnapIndexRange
+) => {
+  const translateY = engine.position as SharedValue<number>;
+  const sharedPosition = position instanceof RNAnimated.Value ? undefined : position;
+  const sharedIndex = index instanceof RNAnimated.Value ? undefined : index;
+  const animatedPosition = position instanceof RNAnimated.Value ? position : undefined;
+  const animatedIndex = index instanceof RNAnimated.Value ? index : undefined;
+  const hasAnimatedTargets = animatedPosition !== undefined || animatedIndex !== undefined;
+
+  const setAnimatedTargets = useCallback(
+    (value: number, snapIndex: number) => {
+      animatedPosition?.setValue(value);
+      animatedIndex?.setValue(snapIndex);
+    },
+    [animatedPosition, animatedIndex]
+  );
+
+  useAnimatedReaction(
+    () => translateY.value,
+    value => {
+      const snapIndex = interpolate(
+        value,
+        indexRange.positions,
+        indexRange.indexes,
+        Extrapolation.CLAMP
+      );
+      if (sharedPosition) sharedPosition.value = value;
+      if (sharedIndex) sharedIndex.value = snapIndex;
+      if (hasAnimatedTargets) runOnJS(setAnimatedTargets)(value, snapIndex);
+    },
+    [translateY, sharedPosition, sharedIndex, hasAnimatedTargets, setAnimatedTargets, indexRange]
+  );
+};
+
+// Backdrop style, fading with the sheet position across fadeRange when there is one
+const useReanimatedBackdropStyle = (engine: SheetEngine, fadeRange: BackdropFadeRange | null) => {
+  const translateY = engine.position as SharedValue<number>;
+  const backdropOpacity = engine.backdropOpacity as SharedValue<number>;
+
+  return useAnimatedStyle(
+    () => ({
+      opacity: fadeRange
+        ? backdropOpacity.value *
+          interpolate(
+            translateY.value,
+            [fadeRange.shownAt, fadeRange.hiddenAt],
+            [1, 0],
+            Extrapolation.CLAMP
+          )
+        : backdropOpacity.value,
+    }),
+    [translateY, backdropOpacity, fadeRange]
+  );
+};
+
+// Fractional snap index derived from the sheet position on the UI thread
+const useReanimatedSnapIndex = (engine: SheetEngine, indexRange: SnapIndexRange) => {
+  const translateY = engine.position as SharedValue<number>;
+
+  return useDerivedValue(
+    () =>
+      interpolate(translateY.value, indexRange.positions, indexRange.indexes, Extrapolation.CLAMP),
+    [translateY, indexRange]
+  );
+};
+
+/**
+ * Engine built on Reanimated shared values and Gesture Handler
+ * Drags, snap animations and the backdrop run on the UI thread
+ */
+const useReanimatedEngine = (direction: SheetDirection): SheetEngine => {
+  const translateY = useSharedValue(0);
+  const backdropOpacity = useSharedValue(0);
+  const cover = useSharedValue(0);
+
+  const { isHorizontal, sign } = getDirectionAxis(direction);
+  const sheetStyle = useAnimatedStyle(() => {
+    const offset = sign * translateY.value;
+    const scale = 1 - cover.value * (1 - COVERED_SCALE);
+    return {
+      transform: isHorizontal
+        ? [{ translateX: offset }, { scale }]
+        : [{ translateY: offset }, { scale }],
+    };
+  }, [isHorizontal, sign]);
+
+  return useMemo<SheetEngine>(
+    () => ({
+      position: translateY,
+      backdropOpacity,
+      direction,
+      AnimatedView: Animated.View,
+      DragArea: ReanimatedDragArea,
+      ContentDragArea: ReanimatedContentDragArea,
+      Scrollable: ReanimatedScrollable,
+      sheetStyle,
+      easeOut: Easing.out(Easing.cubic),
+      keyboardEasing: easing => KEYBOARD_EASINGS[easing] ?? KEYBOARD_EASINGS.keyboard,
+      getPosition: () => translateY.value,
+      setPosition: value => {
+        translateY.value = value;
+      },
+      animatePosition: (toValue, config, velocity = 0, onEnd) => {
+        const handleEnd = (finished?: boolean) => {
+          'worklet';
+          if (onEnd) {
+            runOnJS(onEnd)(finished ?? false);
+          }
+        };
+
+        translateY.value =
+          config.type === 'spring'
+            ? withSpring(
+                toValue,
+                {
+                  // Drag velocity is tracked in px/ms while springs expect px/s
+                  velocity: velocity * 1000,
+                  damping: config.damping,
+                  stiffness: config.stiffness,
+                  mass: config.mass,
+                  overshootClamping: config.overshootClamping,
+                },
+                handleEnd
+              )
+            : withTiming(
+                toValue,
+                { duration: config.duration, easing: config.easing ?? SNAP_EASING },
+                handleEnd
+              );
+      },
+      setBackdropOpacity: value => {
+        backdropOpacity.value = value;
+      },
+      animateBackdropOpacity: (toValue, duration, onEnd) => {
+        backdropOpacity.value = withTiming(toValue, { duration }, finished => {
+          'worklet';
+          if (onEnd) {
+            runOnJS(onEnd)(finished ?? false);
+          }
+        });
+      },
+      animateCover: (toValue, duration) => {
+        cover.value = withTiming(toValue, { duration, easing: SNAP_EASING });
+      },
+      stopAnimations: () => {
+        cancelAnimation(translateY);
+        cancelAnimation(backdropOpacity);
+      },
+    }),
+    [translateY, direction, backdropOpacity, cover, sheetStyle]
+  );
+};
+
+export const reanimatedEngineHooks: SheetEngineHooks = {
+  useEngine: useReanimatedEngine,
+  useBackdropStyle: useReanimatedBackdropStyle,
+  useAnimatedIndex: useReanimatedSnapIndex,
+  useAnimationTargets: useReanimatedTargets,
+};
+
+const styles = StyleSheet.create({
+  scrollableContainer: {
+    flexShrink: 1,
+  },
+});
@@ -0,0 +1,187 @@
+import type React from 'react';
+import type { Animated, KeyboardEventEasing, StyleProp, ViewStyle } from 'react-native';
+import type { SharedValue } from 'react-native-reanimated';
+
+/**
+ * Spring physics for sheet movement
+ * Missing values fall back to springDamping, a stiffness of 200 and a mass of 1
+ */
+export interface ModalSheetSpringConfig {
+  type: 'spring';
+  damping?: number;
+  stiffness?: number;
+  mass?: number;
+  overshootClamping?: boolean;
+}
+
+/**
+ * Timed easing curve for sheet movement
+ * Missing values fall back to animationDuration and a smooth bezier curve
+ * With engine="reanimated" the easing must be a worklet (use Easing from react-native-reanimated)
+ */
+export interface ModalSheetTimingConfig {
+  type: 'timing';
+  duration?: number;
+  easing?: (value: number) => number;
+}
+
+export type ModalSheetAnimationConfig = ModalSheetSpringConfig | ModalSheetTimingConfig;
+
+/**
+ * Animation config with the sheet's defaults applied
+ * A missing timing easing means the engine's default bezier curve
+ */
+export type ResolvedAnimationConfig =
+  | Required<ModalSheetSpringConfig>
+  | (ModalSheetTimingConfig & { duration: number });
+
+export type AnimationEndCallback = (finished: boolean) => void;
+
+/**
+ * Screen edge the sheet is anchored to and slides in from
+ */
+export type SheetDirection = 'bottom' | 'top' | 'left' | 'right';
+
+/**
+ * Sheet positions between which the backdrop fades: fully shown at shownAt, hidden at hiddenAt
+ */
+export interface BackdropFadeRange {
+  shownAt: number;
+  hiddenAt: number;
+}
+
+/**
+ * Sheet positions in ascending order and the snap index at each of them, used to derive the
+ * fractional snap index (-1 at the closed position)
+ */
+export interface SnapIndexRange {
+  positions: number[];
+  indexes: number[];
+}
+
+/**
+ * Animated number owned by a consumer, from either React Native's Animated or Reanimated
+ */
+export type AnimatedNumber = Animated.Value | SharedValue<number>;
+
+/**
+ * Consumer-owned values the engine keeps in sync with the sheet
+ */
+export interface SheetAnimationTargets {
+  position?: AnimatedNumber;
+  index?: AnimatedNumber;
+}
+
+export interface SheetDragAreaProps {
+  engine: SheetEngine;
+  /** Whether a drag may start */
+  enabled: boolean;
+  /** Called when the drag takes over the sheet position */
+  onDragStart: () => void;
+  /** Called on release with the drag velocity in px/ms */
+  onDragEnd: (velocity: number) => void;
+  style?: StyleProp<ViewStyle>;
+  children?: React.ReactNode;
+}
+
+export interface SheetContentDragAreaProps {
+  engine: SheetEngine;
+  /** Whether a drag may start */
+  enabled: boolean;
+  /** Distance in px along the sheet's axis the finger must travel before the sheet takes over */
+  activeOffset: number;
+  /** Distance in px across the sheet's axis after which the touch is left to the content */
+  failOffset: number;
+  onDragStart: () => void;
+  onDragEnd: (velocity: number) => void;
+  /** The sheet view, which receives the gesture handling */
+  children: React.ReactElement;
+}
+
+export type SheetScrollableType = 'ScrollView' | 'FlatList' | 'SectionList';
+
+export interface SheetScrollableProps {
+  engine: SheetEngine;
+  type: SheetScrollableType;
+  /** Whether the sheet rests fully expanded, which unlocks scrolling the content */
+  expanded: boolean;
+  /** Whether the sheet may take over the gesture */
+  enabled: boolean;
+  onDragStart: () => void;
+  onDragEnd: (velocity: number) => void;
+  /** Props of the scrollable as passed by the consumer */
+  scrollableProps: Record<string, any>;
+  /** Receives the mounted scrollable instance */
+  onScrollableRef: (instance: any) => void;
+}
+
+/**
+ * Animation backend of a sheet
+ * Positions are the sheet's offset from its fully expanded layout towards its edge: translateY
+ * for bottom sheets, -translateY for top sheets and translateX / -translateX for side sheets
+ */
+export interface SheetEngine {
+  /** Underlying animated position value of the engine */
+  position: Animated.Value | SharedValue<number>;
+  /** Underlying animated backdrop opacity value of the engine */
+  backdropOpacity: Animated.Value | SharedValue<number>;
+  /** Edge the sheet is anchored to, which decides the axis drags follow */
+  direction: SheetDirection;
+  /** View able to render the engine's animated styles */
+  AnimatedView: React.ComponentType<any>;
+  /** Gesture area that moves the sheet with the finger while dragging */
+  DragArea: React.ComponentType<SheetDragAreaProps>;
+  /**
+   * Makes the whole sheet draggable once a touch moves along the sheet's axis past
+   * activeOffset, leaving taps to Pressables, text inputs and cross-axis swipes to the content
+   */
+  ContentDragArea: React.ComponentType<SheetContentDragAreaProps>;
+  /**
+   * Scrollable that hands a single touch back and forth between the sheet and its content:
+   * the sheet follows the finger until fully expanded, then the content scrolls, and pulling
+   * down with the content at its top moves the sheet again
+   */
+  Scrollable: React.ComponentType<SheetScrollableProps>;
+  sheetStyle: object;
+  /** Decelerating curve for the open and keyboard animations, runnable by the engine */
+  easeOut: (value: number) => number;
+  /** Curve of a keyboard event's animation, runnable by the engine */
+  keyboardEasing: (easing: KeyboardEventEasing) => (value: number) => number;
+  getPosition: () => number;
+  setPosition: (value: number) => void;
+  animatePosition: (
+    toValue: number,
+    config: ResolvedAnimationConfig,
+    velocity?: number,
+    onEnd?: AnimationEndCallback
+  ) => void;
+  setBackdropOpacity: (value: number) => void;
+  animateBackdropOpacity: (toValue: number, duration: number, onEnd?: AnimationEndCallback) => void;
+  /** Scale the sheet back while another sheet is stacked on top (0: in front, 1: covered) */
+  animateCover: (toValue: number, duration: number) => void;
+  stopAnimations: () => void;
+}
+
+/**
+ * Hooks of an animation backend, picked once when the sheet mounts
+ * The hooks other than useEngine only receive engines created by the same useEngine
+ */
+export interface SheetEngineHooks {
+  useEngine: (direction: SheetDirection) => SheetEngine;
+  /**
+   * Returns the backdrop style, which also follows the sheet position across fadeRange when the
+   * backdrop only appears from a snap point on
+   */
+  useBackdropStyle: (engine: SheetEngine, fadeRange: BackdropFadeRange | null) => object;
+  /** Returns the fractional snap index, derived from the position over indexRange */
+  useAnimatedIndex: (
+    engine: SheetEngine,
+    indexRange: SnapIndexRange
+  ) => Animated.AnimatedInterpolation<number> | SharedValue<number>;
+  /** Keeps consumer-owned values of either library in sync with the position and index */
+  useAnimationTargets: (
+    engine: SheetEngine,
+    targets: SheetAnimationTargets,
+    indexRange: SnapIndexRange
+  ) => void;
+}
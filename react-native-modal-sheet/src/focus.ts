@@ -0,0 +1,152 @@
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+import type { SheetDirection } from './engines/types';
+
+// Elements reachable with Tab, as rendered by react-native-web
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+  '[contenteditable="true"]',
+].join(',');
+
+// Keys that move the sheet towards its free edge (expand) or towards its edge (collapse)
+const STEP_KEYS: Record<SheetDirection, Record<string, 1 | -1>> = {
+  bottom: { ArrowUp: 1, PageUp: 1, ArrowDown: -1, PageDown: -1 },
+  top: { ArrowDown: 1, PageUp: 1, ArrowUp: -1, PageDown: -1 },
+  left: { ArrowRight: 1, PageUp: 1, ArrowLeft: -1, PageDown: -1 },
+  right: { ArrowLeft: 1, PageUp: 1, ArrowRight: -1, PageDown: -1 },
+};
+
+const getDocument = (): any =>
+  Platform.OS === 'web' && typeof globalThis !== 'undefined'
+    ? (globalThis as any).document
+    : undefined;
+
+// Visible elements inside the sheet that Tab can reach, in document order
+const getFocusableElements = (sheet: any): any[] =>
+  Array.from(sheet.querySelectorAll(FOCUSABLE_SELECTOR) as ArrayLike<any>).filter(
+    element => element.getClientRects().length > 0
+  );
+
+interface WebSheetFocusOptions {
+  /** DOM id of the sheet view, rendered from its nativeID */
+  sheetId: string;
+  /** DOM id of the handle */
+  handleId: string;
+  /** Edge the sheet is anchored to, which decides the arrow keys stepping between snap points */
+  direction: SheetDirection;
+  /** Whether the sheet is open */
+  isOpen: boolean;
+  /** Whether no other sheet is stacked on top, so the sheet handles the keyboard */
+  isTopmost: boolean;
+  /** Whether the sheet is modal: it takes the focus while open and keeps Tab inside */
+  isModal: boolean;
+  /** Escape was pressed */
+  onEscape: () => void;
+  /** An arrow key or PageUp / PageDown was pressed on the handle: 1 expands, -1 collapses */
+  onStep: (step: 1 | -1) => void;
+}
+
+/**
+ * Keyboard and focus handling of a sheet on the web; does nothing on other platforms
+ * - A modal sheet moves the focus into itself when it opens, keeps Tab and Shift+Tab inside
+ *   while on top, and returns the focus to the element that had it once closed
+ * - Escape calls onEscape while the sheet is on top (for non-modal sheets, only while the
+ *   focus is inside)
+ * - Arrow keys, PageUp and PageDown on the focused handle call onStep
+ */
+export const useWebSheetFocus = ({
+  sheetId,
+  handleId,
+  direction,
+  isOpen,
+  isTopmost,
+  isModal,
+  onEscape,
+  onStep,
+}: WebSheetFocusOptions) => {
+  // The listeners are added once per activation, so they read the latest callbacks through a ref
+  const latest = useRef({ direction, onEscape, onStep });
+  latest.current = { direction, onEscape, onStep };
+
+  // Move the focus into the sheet once it is rendered, and back to the opener after closing
+  useEffect(() => {
+    const doc = getDocument();
+    if (!doc || !isOpen || !isModal) return undefined;
+
+    const opener = doc.activeElement;
+    const frame = requestAnimationFrame(() => {
+      const sheet = doc.getElementById(sheetId);
+      if (!sheet || sheet.contains(doc.activeElement)) return;
+
+      // The sheet itself takes the focus, so its label is announced before its content
+      sheet.setAttribute('tabindex', '-1');
+      sheet.focus({ preventScroll: true });
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+
+      // Leave the focus alone when the user already moved it elsewhere
+      const sheet = doc.getElementById(sheetId);
+      const focused = doc.activeElement;
+      const isFocusInSheet = !focused || focused === doc.body || sheet?.contains(focused);
+      if (opener && opener !== doc.body && doc.contains(opener) && isFocusInSheet) {
+        opener.focus({ preventScroll: true });
+      }
+    };
+  }, [isOpen, isModal, sheetId]);
+
+  useEffect(() => {
+    const doc = getDocument();
+    if (!doc || !isOpen || !isTopmost) return undefined;
+
+    const handleKeyDown = (e: any) => {
+      const sheet = doc.getElementById(sheetId);
+      if (!sheet || e.defaultPrevented) return;
+      const isFocusInSheet = sheet.contains(doc.activeElement);
+
+      if (e.key === 'Escape') {
+        if (!isModal && !isFocusInSheet) return;
+        e.preventDefault();
+        latest.current.onEscape();
+        return;
+      }
+
+      if (e.key === 'Tab' && isModal) {
+        const focusable = getFocusableElements(sheet);
+        if (focusable.length === 0) {
+          e.preventDefault();
+          sheet.focus({ preventScroll: true });
+          return;
+        }
+
+        // Wrap around at either end, and pull a focus that escaped the sheet back in
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        const current = doc.activeElement;
+        if (e.shiftKey && (current === first || current === sheet || !isFocusInSheet)) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && (current === last || !isFocusInSheet)) {
+          e.preventDefault();
+          first.focus();
+        }
+        return;
+      }
+
+      const step = STEP_KEYS[latest.current.direction][e.key];
+      if (step !== undefined && doc.activeElement?.id === handleId) {
+        e.preventDefault();
+        latest.current.onStep(step);
+      }
+    };
+
+    doc.addEventListener('keydown', handleKeyDown);
+    return () => doc.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isTopmost, isModal, sheetId, handleId]);
+};
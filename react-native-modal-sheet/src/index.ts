@@ -1,6 +1,44 @@
 export { default } from './ModalSheet';
+export {
+  ModalSheetScrollView,
+  ModalSheetFlatList,
+  ModalSheetSectionList
+} from './scrollables';
+export {
+  ModalSheetProvider,
+  useModalSheet,
+  useModalSheetInstance
+} from './provider';
+export { registerSheet, SheetManager } from './registry';
+export { useModalSheetAnimation } from './animation';
 export type {
   ModalSheetRef,
   ModalSheetProps,
-  ModalSheetAccessibilityProps
+  ModalSheetAccessibilityProps,
+  ModalSheetBackdropProps,
+  ModalSheetSpringConfig,
+  ModalSheetTimingConfig,
+  ModalSheetAnimationConfig,
+  ModalSheetStackBehavior,
+  ModalSheetDismissReason,
+  ModalSheetDirection,
+  ModalSheetAdaptiveConfig,
+  AnimatedNumber
 } from './ModalSheet';
+export type {
+  ModalSheetProviderProps,
+  ModalSheetShowProps,
+  ModalSheetHandle,
+  ModalSheetController
+} from './provider';
+export type { ModalSheetInstance } from './context';
+export type { ModalSheetAnimation } from './animation';
+export type {
+  ModalSheetRegistry,
+  SheetDefinition,
+  SheetName,
+  SheetPayload,
+  SheetResult,
+  SheetComponentProps,
+  SheetShowOptions
+} from './registry';
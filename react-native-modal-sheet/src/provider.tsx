@@ -0,0 +1,241 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import ModalSheet, { ModalSheetDismissReason, ModalSheetProps, ModalSheetRef } from './ModalSheet';
+import { ModalSheetInstance, ModalSheetInstanceContext } from './context';
+import { attachSheetManager, resolveRegisteredSheet } from './registry';
+
+/**
+ * ModalSheet props for a sheet presented through useModalSheet()
+ * Visibility is managed by the provider, so isVisible is not available
+ */
+export type ModalSheetShowProps = Omit<ModalSheetProps, 'children' | 'isVisible'>;
+
+/**
+ * A sheet presented through useModalSheet()
+ * Awaiting it resolves once the sheet has finished closing, with the result passed to
+ * hide() or undefined when the user dismissed the sheet
+ */
+export interface ModalSheetHandle<TResult = unknown> extends PromiseLike<TResult | undefined> {
+  id: string;
+  /** Close the sheet, resolving the handle with the result */
+  hide: (result?: TResult) => void;
+}
+
+export interface ModalSheetController {
+  /**
+   * Present a sheet: either an element rendered as the sheet content, or the name of a sheet
+   * component passed to the provider's `sheets` prop
+   */
+  show: <TResult = unknown>(
+    sheet: string | React.ReactElement,
+    props?: ModalSheetShowProps
+  ) => ModalSheetHandle<TResult>;
+  /** Close a presented sheet, resolving its handle with the result */
+  hide: (id: string, result?: unknown) => void;
+  /** Close every presented sheet */
+  hideAll: () => void;
+}
+
+export interface ModalSheetProviderProps {
+  children: React.ReactNode;
+  /**
+   * Sheet components that can be presented by name, e.g. `show('share')`
+   * Sheets registered with registerSheet() can be presented by name as well
+   */
+  sheets?: Record<string, React.ComponentType>;
+}
+
+interface PresentedSheet {
+  id: string;
+  content: React.ReactNode;
+  props: ModalSheetShowProps;
+  /** Whether hide() was called, which starts the close animation */
+  isHiding: boolean;
+}
+
+interface PendingResult {
+  resolve: (result: unknown) => void;
+  result?: unknown;
+}
+
+const ControllerContext = createContext<ModalSheetController | null>(null);
+
+let nextSheetId = 0;
+
+// Hosts a single presented sheet, opening it on mount and closing it once hidden
+const PresentedModalSheet = ({
+  sheet,
+  onHide,
+  onClosed,
+}: {
+  sheet: PresentedSheet;
+  onHide: (id: string, result?: unknown) => void;
+  onClosed: (id: string) => void;
+}) => {
+  const { id, content, props, isHiding } = sheet;
+  const { initialSnapIndex = 0, onSnapPointChange, onClose } = props;
+  const sheetRef = useRef<ModalSheetRef>(null);
+  const [snapIndex, setSnapIndex] = useState(initialSnapIndex);
+
+  useEffect(() => {
+    sheetRef.current?.open();
+  }, []);
+
+  useEffect(() => {
+    if (isHiding) {
+      sheetRef.current?.close();
+    }
+  }, [isHiding]);
+
+  const handleSnapPointChange = useCallback(
+    (index: number) => {
+      setSnapIndex(index);
+      onSnapPointChange?.(index);
+    },
+    [onSnapPointChange]
+  );
+
+  const handleClose = useCallback(
+    (reason: ModalSheetDismissReason) => {
+      onClose?.(reason);
+      onClosed(id);
+    },
+    [id, onClose, onClosed]
+  );
+
+  const instance = useMemo<ModalSheetInstance>(
+    () => ({
+      id,
+      snapIndex,
+      hide: result => onHide(id, result),
+      snapToPoint: index => sheetRef.current?.snapToPoint(index) ?? Promise.resolve(false),
+    }),
+    [id, snapIndex, onHide]
+  );
+
+  return (
+    <ModalSheet
+      {...props}
+      ref={sheetRef}
+      onSnapPointChange={handleSnapPointChange}
+      onClose={handleClose}
+    >
+      <ModalSheetInstanceContext.Provider value={instance}>
+        {content}
+      </ModalSheetInstanceContext.Provider>
+    </ModalSheet>
+  );
+};
+
+/**
+ * Hosts sheets presented with useModalSheet(), so screens can show sheets without rendering
+ * a ModalSheet or holding a ref. Place it once near the root of the app
+ */
+export const ModalSheetProvider = ({ children, sheets }: ModalSheetProviderProps) => {
+  const [presented, setPresented] = useState<PresentedSheet[]>([]);
+  const pendingResults = useRef(new Map<string, PendingResult>());
+
+  // Named sheets are looked up when shown, so the latest map is kept in a ref
+  const sheetsRef = useRef(sheets);
+  sheetsRef.current = sheets;
+
+  const hide = useCallback((id: string, result?: unknown) => {
+    const pending = pendingResults.current.get(id);
+    if (!pending) return;
+
+    pending.result = result;
+    setPresented(current =>
+      current.map(sheet => (sheet.id === id ? { ...sheet, isHiding: true } : sheet))
+    );
+  }, []);
+
+  const hideAll = useCallback(() => {
+    setPresented(current => current.map(sheet => ({ ...sheet, isHiding: true })));
+  }, []);
+
+  // The sheet finished closing, whether hidden or dismissed by the user
+  const handleClosed = useCallback((id: string) => {
+    const pending = pendingResults.current.get(id);
+    pendingResults.current.delete(id);
+    setPresented(current => current.filter(sheet => sheet.id !== id));
+    pending?.resolve(pending.result);
+  }, []);
+
+  const show = useCallback(
+    <TResult,>(
+      sheet: string | React.ReactElement,
+      props: ModalSheetShowProps = {}
+    ): ModalSheetHandle<TResult> => {
+      let content: React.ReactNode = sheet;
+      if (typeof sheet === 'string') {
+        const SheetComponent = sheetsRef.current?.[sheet];
+        const registered = SheetComponent ? null : resolveRegisteredSheet(sheet);
+        if (SheetComponent) {
+          content = <SheetComponent />;
+        } else if (registered) {
+          content = registered.content;
+          props = { ...registered.props, ...props };
+        } else {
+          throw new Error(
+            `ModalSheet: no sheet named "${sheet}" is registered or passed to the ModalSheetProvider.`
+          );
+        }
+      }
+
+      const id = `modal-sheet-${++nextSheetId}`;
+      const promise = new Promise<TResult | undefined>(resolve => {
+        pendingResults.current.set(id, { resolve: resolve as (result: unknown) => void });
+      });
+
+      setPresented(current => [...current, { id, content, props, isHiding: false }]);
+
+      return {
+        id,
+        hide: result => hide(id, result),
+        then: (onFulfilled, onRejected) => promise.then(onFulfilled, onRejected),
+      };
+    },
+    [hide]
+  );
+
+  const controller = useMemo<ModalSheetController>(
+    () => ({ show, hide, hideAll }),
+    [show, hide, hideAll]
+  );
+
+  // SheetManager presents registered sheets through the most recently mounted provider
+  useEffect(() => attachSheetManager(controller), [controller]);
+
+  return (
+    <ControllerContext.Provider value={controller}>
+      {children}
+      {presented.map(sheet => (
+        <PresentedModalSheet key={sheet.id} sheet={sheet} onHide={hide} onClosed={handleClosed} />
+      ))}
+    </ControllerContext.Provider>
+  );
+};
+
+/**
+ * Present sheets from any component inside a ModalSheetProvider
+ */
+export const useModalSheet = (): ModalSheetController => {
+  const controller = useContext(ControllerContext);
+  if (!controller) {
+    throw new Error('ModalSheet: useModalSheet() must be used inside a ModalSheetProvider.');
+  }
+  return controller;
+};
+
+/**
+ * The sheet presenting the calling component, or null outside a sheet shown with useModalSheet()
+ */
+export const useModalSheetInstance = (): ModalSheetInstance | null =>
+  useContext(ModalSheetInstanceContext);
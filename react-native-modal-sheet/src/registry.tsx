@@ -0,0 +1,147 @@
+import React, { useContext } from 'react';
+import { ModalSheetInstanceContext } from './context';
+import type { ModalSheetController, ModalSheetHandle, ModalSheetShowProps } from './provider';
+
+/**
+ * Payload and result types of a registered sheet
+ */
+export interface SheetDefinition<TPayload = undefined, TResult = undefined> {
+  payload: TPayload;
+  result: TResult;
+}
+
+/**
+ * Map of registered sheet names to their definitions, extended through declaration merging:
+ *
+ * declare module 'rn-modal-bottom-sheet' {
+ *   interface ModalSheetRegistry {
+ *     share: SheetDefinition<{ url: string }, 'copied' | 'shared'>;
+ *   }
+ * }
+ */
+export interface ModalSheetRegistry {}
+
+export type SheetName = keyof ModalSheetRegistry & string;
+
+export type SheetPayload<N extends SheetName> =
+  ModalSheetRegistry[N] extends SheetDefinition<infer TPayload, any> ? TPayload : never;
+
+export type SheetResult<N extends SheetName> =
+  ModalSheetRegistry[N] extends SheetDefinition<any, infer TResult> ? TResult : never;
+
+/**
+ * Props received by a registered sheet component
+ */
+export interface SheetComponentProps<N extends SheetName> {
+  sheetId: string;
+  payload: SheetPayload<N>;
+  /** Close the sheet, resolving SheetManager.show() with the result */
+  hide: (result?: SheetResult<N>) => void;
+}
+
+/**
+ * ModalSheet props for SheetManager.show(), with the payload required when the sheet's
+ * payload type doesn't allow undefined
+ */
+export type SheetShowOptions<N extends SheetName> = ModalSheetShowProps &
+  (undefined extends SheetPayload<N>
+    ? { payload?: SheetPayload<N> }
+    : { payload: SheetPayload<N> });
+
+interface RegisteredSheet {
+  component: React.ComponentType<any>;
+  props?: ModalSheetShowProps;
+}
+
+const registeredSheets = new Map<string, RegisteredSheet>();
+let sheetManagerController: ModalSheetController | null = null;
+
+/**
+ * Register a sheet component under a name declared in ModalSheetRegistry
+ * Props are the default ModalSheet props of the sheet, overridable per show() call
+ */
+export const registerSheet = <N extends SheetName>(
+  name: N,
+  component: React.ComponentType<SheetComponentProps<N>>,
+  props?: ModalSheetShowProps
+) => {
+  registeredSheets.set(name, { component, props });
+};
+
+// Renders a registered sheet component with the id and hide of the sheet presenting it
+const RegisteredSheetContent = ({
+  component: Component,
+  payload,
+}: {
+  component: React.ComponentType<any>;
+  payload: unknown;
+}) => {
+  const instance = useContext(ModalSheetInstanceContext);
+  if (!instance) return null;
+
+  return <Component sheetId={instance.id} payload={payload} hide={instance.hide} />;
+};
+
+/**
+ * Content and default props of a registered sheet, or null if no sheet has the name
+ */
+export const resolveRegisteredSheet = (
+  name: string,
+  payload?: unknown
+): { content: React.ReactElement; props?: ModalSheetShowProps } | null => {
+  const registered = registeredSheets.get(name);
+  if (!registered) return null;
+
+  return {
+    content: <RegisteredSheetContent component={registered.component} payload={payload} />,
+    props: registered.props,
+  };
+};
+
+/**
+ * Make a provider's controller the one used by SheetManager, returning the detach function
+ */
+export const attachSheetManager = (controller: ModalSheetController) => {
+  sheetManagerController = controller;
+  return () => {
+    if (sheetManagerController === controller) {
+      sheetManagerController = null;
+    }
+  };
+};
+
+const getController = (method: string): ModalSheetController => {
+  if (!sheetManagerController) {
+    throw new Error(`ModalSheet: SheetManager.${method}() requires a mounted ModalSheetProvider.`);
+  }
+  return sheetManagerController;
+};
+
+/**
+ * Presents registered sheets from anywhere, including outside React components
+ */
+export const SheetManager = {
+  /**
+   * Present a registered sheet, resolving with its result once it has closed
+   * (undefined when the user dismissed it)
+   */
+  show: <N extends SheetName>(
+    name: N,
+    ...[options]: undefined extends SheetPayload<N>
+      ? [options?: SheetShowOptions<N>]
+      : [options: SheetShowOptions<N>]
+  ): ModalSheetHandle<SheetResult<N>> => {
+    const controller = getController('show');
+    const { payload, ...props } = (options ?? {}) as SheetShowOptions<N>;
+    const sheet = resolveRegisteredSheet(name, payload);
+    if (!sheet) {
+      throw new Error(`ModalSheet: no sheet named "${name}" was registered with registerSheet().`);
+    }
+
+    return controller.show<SheetResult<N>>(sheet.content, { ...sheet.props, ...props });
+  },
+  /** Close a presented sheet, resolving its handle with the result */
+  hide: (id: string, result?: unknown) => getController('hide').hide(id, result),
+  /** Close every presented sheet */
+  hideAll: () => getController('hideAll').hideAll(),
+};
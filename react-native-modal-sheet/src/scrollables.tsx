@@ -0,0 +1,124 @@
+import React, { forwardRef, useCallback, useContext, useEffect, useRef } from 'react';
+import {
+  FlatList,
+  FlatListProps,
+  ScrollView,
+  ScrollViewProps,
+  SectionList,
+  SectionListProps,
+  TextInput,
+} from 'react-native';
+import { ModalSheetContext } from './context';
+import type { SheetScrollableType } from './engines/types';
+
+// Forward the scrollable instance to a consumer's ref, whichever kind of ref it is
+const assignRef = <T,>(ref: React.ForwardedRef<T>, instance: T | null) => {
+  if (typeof ref === 'function') {
+    ref(instance);
+  } else if (ref) {
+    ref.current = instance;
+  }
+};
+
+// Space kept between a focused input scrolled into view and the keyboard
+const FOCUSED_INPUT_SPACING = 16;
+
+/**
+ * Scroll a ModalSheet scrollable so the focused text input ends above visibleBottom (in window
+ * coordinates) and within the scrollable. Inputs outside the scrollable are left alone
+ */
+export const scrollFocusedInputIntoView = (scrollable: any, visibleBottom: number) => {
+  const input: any = TextInput.State.currentlyFocusedInput();
+  const scrollView = scrollable?.getScrollResponder?.();
+  const innerView = scrollView?.getInnerViewRef?.();
+  const frame = scrollView?.getNativeScrollRef?.();
+  if (!input || !innerView || !frame) return;
+
+  // Measuring against the content container fails for inputs outside the scrollable
+  input.measureLayout(
+    innerView,
+    (_left: number, contentY: number) => {
+      input.measureInWindow((_x: number, inputY: number, _width: number, inputHeight: number) => {
+        frame.measureInWindow((_fx: number, frameY: number, _fw: number, frameHeight: number) => {
+          const bottom = Math.min(frameY + frameHeight, visibleBottom) - FOCUSED_INPUT_SPACING;
+          const overflow = inputY + inputHeight - bottom;
+          if (overflow <= 0) return;
+
+          const scrollOffset = frameY + contentY - inputY;
+          scrollView.scrollTo({ y: scrollOffset + overflow, animated: true });
+        });
+      });
+    },
+    () => {}
+  );
+};
+
+// Build a scrollable that coordinates its gestures with the parent sheet
+// Outside a ModalSheet (or with enableScrollToExpand off) it renders the plain component
+const createSheetScrollable = <P extends object, T>(
+  type: SheetScrollableType,
+  Component: React.ComponentType<any>
+) => {
+  const SheetScrollable = forwardRef<T, P>((props, ref) => {
+    const sheet = useContext(ModalSheetContext);
+
+    // Scrollables drag the sheet themselves, so the sheet turns content panning off by default
+    // The sheet also scrolls them to reveal inputs focused behind the keyboard
+    const instanceRef = useRef<any>(null);
+    const registerScrollable = sheet?.registerScrollable;
+    useEffect(() => registerScrollable?.(() => instanceRef.current), [registerScrollable]);
+
+    const handleScrollableRef = useCallback(
+      (instance: any) => {
+        instanceRef.current = instance;
+        assignRef(ref, instance);
+      },
+      [ref]
+    );
+
+    if (!sheet || !sheet.scrollHandoff) {
+      return <Component {...props} ref={handleScrollableRef} />;
+    }
+
+    const { Scrollable } = sheet.engine;
+    return (
+      <Scrollable
+        engine={sheet.engine}
+        type={type}
+        expanded={sheet.expanded}
+        enabled={sheet.enabled}
+        onDragStart={sheet.onDragStart}
+        onDragEnd={sheet.onDragEnd}
+        scrollableProps={props}
+        onScrollableRef={handleScrollableRef}
+      />
+    );
+  });
+
+  SheetScrollable.displayName = `ModalSheet.${type}`;
+  return SheetScrollable;
+};
+
+/**
+ * ScrollView that drags the sheet until it is fully expanded, then scrolls its content
+ */
+export const ModalSheetScrollView = createSheetScrollable<ScrollViewProps, ScrollView>(
+  'ScrollView',
+  ScrollView
+);
+
+/**
+ * FlatList that drags the sheet until it is fully expanded, then scrolls its content
+ */
+export const ModalSheetFlatList = createSheetScrollable<FlatListProps<any>, FlatList<any>>(
+  'FlatList',
+  FlatList
+);
+
+/**
+ * SectionList that drags the sheet until it is fully expanded, then scrolls its content
+ */
+export const ModalSheetSectionList = createSheetScrollable<SectionListProps<any>, SectionList<any>>(
+  'SectionList',
+  SectionList
+);
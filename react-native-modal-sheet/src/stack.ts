@@ -0,0 +1,44 @@
+/**
+ * How a sheet opened on top of another visible sheet treats the one below it
+ * - 'push': the sheet below stays in place, scaled back behind the new sheet's backdrop
+ * - 'switch': the sheet below slides away and comes back when the new sheet closes
+ * - 'replace': the sheet below is closed
+ */
+export type StackBehavior = 'push' | 'replace' | 'switch';
+
+interface StackEntry {
+  id: number;
+  /** Another sheet was opened on top of this one */
+  onCover: (behavior: StackBehavior) => void;
+  /** The sheet on top of this one started closing */
+  onUncover: () => void;
+}
+
+let nextStackId = 0;
+const entries: StackEntry[] = [];
+
+export const createStackId = (): number => ++nextStackId;
+
+/**
+ * Put a sheet on top of the stack, covering the sheet that was on top
+ */
+export const pushSheet = (entry: StackEntry, behavior: StackBehavior) => {
+  if (entries.some(({ id }) => id === entry.id)) return;
+
+  const previousTop = entries[entries.length - 1];
+  entries.push(entry);
+  previousTop?.onCover(behavior);
+};
+
+/**
+ * Take a sheet off the stack, uncovering the sheet below when it was on top
+ */
+export const removeSheet = (id: number) => {
+  const index = entries.findIndex(entry => entry.id === id);
+  if (index === -1) return;
+
+  entries.splice(index, 1);
+  if (index === entries.length) {
+    entries[entries.length - 1]?.onUncover();
+  }
+};